@@ -61,6 +61,7 @@ function normalizeGameDoc(snapshot: QueryDocumentSnapshot<DocumentData>): { game
     code: String(raw.code ?? ""),
     turn: raw.turn === "B" ? "B" : "A",
     phase: safePhase,
+    word: typeof raw.word === "string" && raw.word ? raw.word.toUpperCase() : DEFAULT_WORD,
     winner: raw.winner === "B" ? "B" : raw.winner === "A" ? "A" : undefined,
     players: {
       A: sanitizePlayer("A"),
@@ -98,16 +99,16 @@ const phaseCopy: Record<GamePhase, { title: string; description: string }> = {
   },
 };
 
-const lettersOrder = ["S", "K", "8"] as const;
+const DEFAULT_WORD = "SK8";
 
-function LettersTrack({ letters }: { letters: string }) {
+function LettersTrack({ letters, word }: { letters: string; word: string }) {
   return (
-    <div className="flex items-center gap-2 text-lg font-semibold">
-      {lettersOrder.map((letter) => {
-        const active = letters.toUpperCase().includes(letter);
+    <div className="flex flex-wrap items-center gap-2 text-lg font-semibold">
+      {word.split("").map((letter, index) => {
+        const active = letters.length > index;
         return (
           <span
-            key={letter}
+            key={`${letter}-${index}`}
             className={`grid h-9 w-9 place-items-center rounded-full border text-base ${
               active
                 ? "border-hubba-orange bg-hubba-orange/20 text-hubba-orange"
@@ -572,12 +573,12 @@ export default function GameClient({ code }: GameClientProps) {
           <div className="rounded-2xl border border-zinc-800 bg-black/60 p-4">
             <p className="text-sm uppercase tracking-[0.2em] text-zinc-500">You ({playerKey})</p>
             <p className="mt-2 text-2xl font-semibold text-white">{game.players[playerKey].name}</p>
-            <LettersTrack letters={game.players[playerKey].letters} />
+            <LettersTrack letters={game.players[playerKey].letters} word={game.word} />
           </div>
           <div className="rounded-2xl border border-zinc-800 bg-black/60 p-4">
             <p className="text-sm uppercase tracking-[0.2em] text-zinc-500">Opponent ({playerKey === "A" ? "B" : "A"})</p>
             <p className="mt-2 text-2xl font-semibold text-white">{opponentName}</p>
-            <LettersTrack letters={game.players[playerKey === "A" ? "B" : "A"].letters} />
+            <LettersTrack letters={game.players[playerKey === "A" ? "B" : "A"].letters} word={game.word} />
           </div>
         </div>
         {banner && <ActionBanner title={banner.title} description={banner.description} />}
@@ -26,6 +26,7 @@ export interface GameDoc {
   code: string;
   turn: PlayerKey;
   phase: GamePhase;
+  word: string;
   winner?: PlayerKey;
   players: {
     A: PlayerState;
@@ -1,11 +1,22 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { selectGame, selectGuards, selectPhase, selectRole, useGameStore } from '../../../src/store/game';
+import {
+  selectClips,
+  selectGame,
+  selectGuards,
+  selectPhase,
+  selectRole,
+  useGameStore
+} from '../../../src/store/game';
+import { formatWord, gameWord } from '../../../src/game/rules';
+import { isRenderingReel } from '../../../src/game/reel';
 import { Scoreboard } from '../../../components/game/scoreboard';
 import { ControlPanel } from '../../../components/game/control-panel';
+import { GameOver } from '../../../components/game/game-over';
 import { HistoryList } from '../../../components/game/history-list';
+import { SeriesScore } from '../../../components/game/series-score';
 import { Button } from '../../../components/ui/button';
 
 export default function GamePage() {
@@ -15,12 +26,14 @@ export default function GamePage() {
   const guards = useGameStore(selectGuards);
   const role = useGameStore(selectRole);
   const phase = useGameStore(selectPhase);
+  const clips = useGameStore(selectClips);
   const { actions, loading, error, gameId } = useGameStore((state) => ({
     actions: state.actions,
     loading: state.loading,
     error: state.error,
     gameId: state.gameId
   }));
+  const [renderingReel, setRenderingReel] = useState(false);
 
   useEffect(() => {
     const code = params.code?.toString().toUpperCase();
@@ -38,6 +51,24 @@ export default function GamePage() {
     );
   }
 
+  const handleRematch = async () => {
+    const next = game.rematch ?? (await actions.rematch());
+    router.push(`/game/${next.code}`);
+  };
+
+  // Another player's render shows too, through its claim on the game document.
+  const reelInProgress = renderingReel || isRenderingReel(game, new Date().toISOString());
+
+  // Rendering takes a while; the link appears for everyone once the game document has the reel.
+  const handleMakeReel = async () => {
+    setRenderingReel(true);
+    try {
+      await actions.makeReel();
+    } finally {
+      setRenderingReel(false);
+    }
+  };
+
   const handleLeave = () => {
     actions.leaveGame();
     router.replace('/');
@@ -50,13 +81,42 @@ export default function GamePage() {
           <p className="text-xs uppercase tracking-[0.3em] text-white/60">Game Code</p>
           <h1 className="text-4xl font-bold text-white">{game.code}</h1>
           <p className="mt-1 text-sm text-white/60">
-            Phase: {phase} • Shooter: {game.current.by}
+            {formatWord(gameWord(game))} • Phase: {phase} • Shooter: {game.current.by}
           </p>
+          <SeriesScore game={game} />
+        </div>
+        <div className="flex flex-col gap-3 sm:flex-row">
+          {game.winner && role ? (
+            <Button
+              onClick={() => handleRematch().catch((err) => console.error(err))}
+              disabled={loading}
+              className="w-full bg-hubba-green text-black sm:w-auto"
+            >
+              {game.rematch ? 'Go to Rematch' : 'Rematch'}
+            </Button>
+          ) : null}
+          {game.reel ? (
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <a href={game.reel.url} target="_blank" rel="noreferrer">
+                Watch Reel
+              </a>
+            </Button>
+          ) : game.winner && role ? (
+            <Button
+              variant="outline"
+              onClick={() => handleMakeReel().catch((err) => console.error(err))}
+              disabled={loading || reelInProgress}
+              className="w-full sm:w-auto"
+            >
+              {reelInProgress ? 'Making Reel…' : 'Make Reel'}
+            </Button>
+          ) : null}
+          <Button variant="outline" onClick={handleLeave} className="w-full sm:w-auto">
+            Leave Game
+          </Button>
         </div>
-        <Button variant="outline" onClick={handleLeave} className="w-full sm:w-auto">
-          Leave Game
-        </Button>
       </header>
+      <GameOver game={game} role={role} />
       <Scoreboard game={game} role={role} />
       <ControlPanel
         game={game}
@@ -65,10 +125,16 @@ export default function GamePage() {
         role={role}
         loading={loading}
         actions={actions}
+        clips={clips}
       />
       <section className="rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
         <h2 className="text-xl font-semibold text-white">History</h2>
-        <HistoryList history={game.history} />
+        <HistoryList
+          history={game.history}
+          word={gameWord(game)}
+          players={game.players}
+          clips={clips}
+        />
       </section>
       {error ? <p className="text-sm text-red-400">{error}</p> : null}
     </div>
@@ -0,0 +1,144 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { selectProfile, useGameStore } from '../../src/store/game';
+import { fetchLeaderboard, type LeaderboardView } from '../../src/lib/leaderboard';
+import { formatRecord } from '../../src/game/profiles';
+import { RECENT_WINDOW_DAYS, formatRatingDelta } from '../../src/game/ratings';
+import type { UserProfile } from '../../src/game/types';
+import { Button } from '../../components/ui/button';
+import { cn } from '../../src/utils/cn';
+
+const viewCopy: Record<LeaderboardView, string> = {
+  all: 'All time',
+  recent: `Last ${RECENT_WINDOW_DAYS} days`
+};
+
+const standing = (profile: UserProfile, view: LeaderboardView) => {
+  if (view === 'all' || !profile.recent) {
+    return { score: String(profile.rating), record: formatRecord(profile.stats) };
+  }
+  const { ratingChange, gamesPlayed, gamesWon } = profile.recent;
+  return {
+    score: formatRatingDelta({ before: 0, after: ratingChange }),
+    record: formatRecord({ gamesPlayed, gamesWon })
+  };
+};
+
+export default function LeaderboardPage() {
+  const actions = useGameStore((state) => state.actions);
+  const ownProfile = useGameStore(selectProfile);
+  const [view, setView] = useState<LeaderboardView>('all');
+  const [entries, setEntries] = useState<UserProfile[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    actions.bootstrap().catch((err) => console.error(err));
+  }, [actions]);
+
+  useEffect(() => {
+    let active = true;
+    setEntries([]);
+    setCursor(undefined);
+    setLoading(true);
+    setError(undefined);
+    fetchLeaderboard(view)
+      .then((page) => {
+        if (!active) return;
+        setEntries(page.entries);
+        setCursor(page.cursor);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Unable to load leaderboard');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [view]);
+
+  const handleLoadMore = async () => {
+    setLoading(true);
+    try {
+      const page = await fetchLeaderboard(view, cursor);
+      setEntries((shown) => [...shown, ...page.entries]);
+      setCursor(page.cursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-8 px-6 py-10">
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-white/60">SkateHubba</p>
+          <h1 className="text-4xl font-bold text-white">Leaderboard</h1>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(viewCopy) as LeaderboardView[]).map((option) => (
+            <Button
+              key={option}
+              variant={option === view ? 'default' : 'outline'}
+              onClick={() => setView(option)}
+            >
+              {viewCopy[option]}
+            </Button>
+          ))}
+        </div>
+      </header>
+      <section className="rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
+        {entries.length ? (
+          <ol className="flex flex-col gap-2">
+            {entries.map((profile, index) => {
+              const { score, record } = standing(profile, view);
+              return (
+                <li key={profile.uid}>
+                  <Link
+                    href={`/u/${profile.handle}`}
+                    className={cn(
+                      'flex items-center gap-4 rounded-2xl border border-white/10 px-4 py-3 transition hover:border-hubba-green/60',
+                      profile.uid === ownProfile?.uid && 'border-hubba-green/60'
+                    )}
+                  >
+                    <span className="w-8 text-sm text-white/60">{index + 1}</span>
+                    <span className="flex-1 text-sm font-semibold text-white">
+                      @{profile.handle}
+                    </span>
+                    <span className="text-xs text-white/60">{record}</span>
+                    <span className="w-14 text-right text-sm font-semibold text-hubba-green">
+                      {score}
+                    </span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-sm text-white/60">
+            {loading ? 'Loading leaderboard…' : 'No rated games yet.'}
+          </p>
+        )}
+        {cursor ? (
+          <Button
+            variant="outline"
+            disabled={loading}
+            onClick={() => handleLoadMore().catch((err) => console.error(err))}
+            className="mt-4 w-full"
+          >
+            {loading ? 'Loading…' : 'Load more'}
+          </Button>
+        ) : null}
+      </section>
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+    </div>
+  );
+}
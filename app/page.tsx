@@ -1,11 +1,35 @@
 'use client';
 
 import { FormEvent, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useGameStore } from '../src/store/game';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { SkateLogo } from '../components/ui/skate-logo';
+import { SaveAccount } from '../components/account/save-account';
+import { ChallengeInbox } from '../components/challenges/challenge-inbox';
+import { LobbyBrowser } from '../components/lobby/lobby-browser';
+import {
+  CLIP_LENGTH_PRESETS,
+  DEFAULT_CLIP_LENGTH,
+  DEFAULT_HOUSE_RULES,
+  DEFAULT_SHOT_CLOCK,
+  SERIES_LENGTHS,
+  WORD_PRESETS,
+  formatWord,
+  normalizeWord
+} from '../src/game/rules';
+import type { Verdict } from '../src/game/types';
+
+const CUSTOM_WORD = 'custom';
+const verdictCopy: Record<Verdict, string> = { approve: 'Approve', decline: 'Decline' };
+type Listing = 'private' | 'public' | 'watchable';
+const listingCopy: Record<Listing, string> = {
+  private: 'Code only',
+  public: 'List in lobby',
+  watchable: 'List + spectators'
+};
 
 export default function HomePage() {
   const router = useRouter();
@@ -16,6 +40,14 @@ export default function HomePage() {
   }));
   const [name, setName] = useState('');
   const [code, setCode] = useState('');
+  const [wordChoice, setWordChoice] = useState(WORD_PRESETS[0]);
+  const [customWord, setCustomWord] = useState('');
+  const [wordError, setWordError] = useState<string | undefined>();
+  const [defaultVerdict, setDefaultVerdict] = useState<Verdict>(DEFAULT_SHOT_CLOCK.defaultVerdict);
+  const [bestOf, setBestOf] = useState(SERIES_LENGTHS[0]);
+  const [clipSeconds, setClipSeconds] = useState(DEFAULT_CLIP_LENGTH.setSeconds);
+  const [setRetakes, setSetRetakes] = useState(DEFAULT_HOUSE_RULES.setRetakes);
+  const [listing, setListing] = useState<Listing>('private');
 
   useEffect(() => {
     actions.bootstrap().catch((err) => console.error(err));
@@ -24,7 +56,20 @@ export default function HomePage() {
   const handleCreate = async (event: FormEvent) => {
     event.preventDefault();
     if (!name.trim()) return;
-    const { code: joinCode } = await actions.createGame(name.trim());
+    const word = wordChoice === CUSTOM_WORD ? normalizeWord(customWord) : wordChoice;
+    if (!word) {
+      setWordError('Pick 2–10 letters or numbers.');
+      return;
+    }
+    setWordError(undefined);
+    const { code: joinCode } = await actions.createGame(name.trim(), {
+      word,
+      shotClock: { defaultVerdict },
+      clipLength: { setSeconds: clipSeconds, responseSeconds: clipSeconds },
+      houseRules: { setRetakes },
+      bestOf,
+      ...(listing === 'private' ? {} : { lobby: { allowSpectators: listing === 'watchable' } })
+    });
     await actions.connectGame(joinCode);
     router.push(`/game/${joinCode}`);
   };
@@ -45,6 +90,9 @@ export default function HomePage() {
           Challenge friends in a live head-to-head S.K.8 battle. Record tricks, judge in real time, and
           climb the leaderboard.
         </p>
+        <Link href="/leaderboard" className="mt-4 text-sm text-hubba-green">
+          View the leaderboard
+        </Link>
       </div>
       <div className="grid gap-8 md:grid-cols-2">
         <form
@@ -62,6 +110,102 @@ export default function HomePage() {
             onChange={(event) => setName(event.target.value)}
             required
           />
+          <span className="text-sm font-medium text-slate-200">Letters</span>
+          <div className="flex flex-wrap gap-2">
+            {[...WORD_PRESETS, CUSTOM_WORD].map((choice) => (
+              <Button
+                key={choice}
+                type="button"
+                variant={wordChoice === choice ? 'default' : 'outline'}
+                onClick={() => setWordChoice(choice)}
+                className="px-4 py-2 text-sm"
+              >
+                {choice === CUSTOM_WORD ? 'Custom' : formatWord(choice)}
+              </Button>
+            ))}
+          </div>
+          {wordChoice === CUSTOM_WORD ? (
+            <Input
+              id="create-word"
+              aria-label="Custom letters"
+              placeholder="HORSE"
+              value={customWord}
+              onChange={(event) => setCustomWord(event.target.value.toUpperCase())}
+              className="uppercase"
+              required
+            />
+          ) : null}
+          {wordError ? <p className="text-sm text-red-400">{wordError}</p> : null}
+          <span className="text-sm font-medium text-slate-200">If a judge runs out the clock</span>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(verdictCopy) as Verdict[]).map((verdict) => (
+              <Button
+                key={verdict}
+                type="button"
+                variant={defaultVerdict === verdict ? 'default' : 'outline'}
+                onClick={() => setDefaultVerdict(verdict)}
+                className="px-4 py-2 text-sm"
+              >
+                {verdictCopy[verdict]}
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm font-medium text-slate-200">Max clip length</span>
+          <div className="flex flex-wrap gap-2">
+            {CLIP_LENGTH_PRESETS.map((seconds) => (
+              <Button
+                key={seconds}
+                type="button"
+                variant={clipSeconds === seconds ? 'default' : 'outline'}
+                onClick={() => setClipSeconds(seconds)}
+                className="px-4 py-2 text-sm"
+              >
+                {seconds}s
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm font-medium text-slate-200">Sets</span>
+          <div className="flex flex-wrap gap-2">
+            {[false, true].map((allowed) => (
+              <Button
+                key={String(allowed)}
+                type="button"
+                variant={setRetakes === allowed ? 'default' : 'outline'}
+                onClick={() => setSetRetakes(allowed)}
+                className="px-4 py-2 text-sm"
+              >
+                {allowed ? 'Retakes allowed' : 'One take'}
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm font-medium text-slate-200">Series</span>
+          <div className="flex flex-wrap gap-2">
+            {SERIES_LENGTHS.map((length) => (
+              <Button
+                key={length}
+                type="button"
+                variant={bestOf === length ? 'default' : 'outline'}
+                onClick={() => setBestOf(length)}
+                className="px-4 py-2 text-sm"
+              >
+                {length === 1 ? 'Single game' : `Best of ${length}`}
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm font-medium text-slate-200">Who can join</span>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(listingCopy) as Listing[]).map((choice) => (
+              <Button
+                key={choice}
+                type="button"
+                variant={listing === choice ? 'default' : 'outline'}
+                onClick={() => setListing(choice)}
+                className="px-4 py-2 text-sm"
+              >
+                {listingCopy[choice]}
+              </Button>
+            ))}
+          </div>
           <Button type="submit" disabled={loading} className="mt-4 bg-hubba-orange text-black">
             {loading ? 'Creating…' : 'Create Game'}
           </Button>
@@ -99,6 +243,9 @@ export default function HomePage() {
           {error ? <p className="text-sm text-red-400">{error}</p> : null}
         </form>
       </div>
+      <LobbyBrowser name={name} />
+      <ChallengeInbox />
+      <SaveAccount />
     </div>
   );
 }
@@ -0,0 +1,157 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { selectProfile, useGameStore } from '../../../src/store/game';
+import {
+  fetchProfileByHandle,
+  fetchRecentGames,
+  type ProfileGame
+} from '../../../src/lib/profiles';
+import { formatRecord, gameOutcome, normalizeHandle } from '../../../src/game/profiles';
+import { formatWord, gameWord, seatedSlots } from '../../../src/game/rules';
+import type { UserProfile } from '../../../src/game/types';
+import { ProfileEditor } from '../../../components/profile/profile-editor';
+import { ChallengeForm } from '../../../components/challenges/challenge-form';
+import { cn } from '../../../src/utils/cn';
+
+const outcomeCopy = { won: 'Won', lost: 'Lost', playing: 'In progress' } as const;
+
+export default function ProfilePage() {
+  const params = useParams<{ handle: string }>();
+  const router = useRouter();
+  const actions = useGameStore((state) => state.actions);
+  const ownProfile = useGameStore(selectProfile);
+  const [profile, setProfile] = useState<UserProfile | null | undefined>();
+  const [games, setGames] = useState<ProfileGame[]>([]);
+  const [error, setError] = useState<string | undefined>();
+  const handle = normalizeHandle(decodeURIComponent(params?.handle?.toString() ?? ''));
+
+  useEffect(() => {
+    actions.bootstrap().catch((err) => console.error(err));
+  }, [actions]);
+
+  useEffect(() => {
+    if (!handle) {
+      setProfile(null);
+      return undefined;
+    }
+    let active = true;
+    setProfile(undefined);
+    fetchProfileByHandle(handle)
+      .then(async (found) => {
+        if (!active) return;
+        setProfile(found ?? null);
+        if (found) {
+          const recent = await fetchRecentGames(found.uid);
+          if (active) setGames(recent);
+        }
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Unable to load profile');
+      });
+    return () => {
+      active = false;
+    };
+  }, [handle]);
+
+  if (profile === undefined) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4">
+        <p className="text-lg text-white/70">Loading profile…</p>
+        {error ? <p className="text-sm text-red-400">{error}</p> : null}
+      </div>
+    );
+  }
+
+  if (profile === null) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4">
+        <p className="text-lg text-white/70">No skater goes by @{handle ?? params?.handle}.</p>
+        <Link href="/" className="text-sm text-hubba-green">
+          Back to the lobby
+        </Link>
+      </div>
+    );
+  }
+
+  // Edits come back through the store; follow a handle change to its new address.
+  const shown = ownProfile?.uid === profile.uid ? ownProfile : profile;
+  const handleSaved = (saved: UserProfile) => {
+    setProfile(saved);
+    if (saved.handle !== profile.handle) {
+      router.replace(`/u/${saved.handle}`);
+    }
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-1 flex-col gap-10 px-6 py-10">
+      <header className="flex items-center gap-6">
+        {shown.avatarUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={shown.avatarUrl}
+            alt=""
+            className="h-24 w-24 rounded-full border border-white/10 object-cover"
+          />
+        ) : (
+          <div className="flex h-24 w-24 items-center justify-center rounded-full border border-white/10 bg-black/60 text-3xl font-bold text-white/60">
+            {shown.handle[0]?.toUpperCase()}
+          </div>
+        )}
+        <div>
+          <h1 className="text-4xl font-bold text-white">@{shown.handle}</h1>
+          <p className="mt-1 text-sm text-white/60">
+            Record {formatRecord(shown.stats)} • {shown.stats.gamesPlayed} games
+            {shown.rating !== undefined ? ` • Rating ${shown.rating}` : ''}
+          </p>
+          {shown.bio ? <p className="mt-3 text-base text-white/80">{shown.bio}</p> : null}
+        </div>
+      </header>
+      {ownProfile?.uid === profile.uid ? (
+        <ProfileEditor profile={ownProfile} onSaved={handleSaved} />
+      ) : ownProfile ? (
+        <ChallengeForm key={profile.uid} handle={profile.handle} />
+      ) : null}
+      <section className="rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
+        <h2 className="text-xl font-semibold text-white">Recent Games</h2>
+        {games.length ? (
+          <ul className="mt-4 flex flex-col gap-3">
+            {games.map(({ gameId, game }) => {
+              const outcome = gameOutcome(game, profile.uid);
+              const opponents = seatedSlots(game)
+                .map((slot) => game.players[slot])
+                .filter((player) => player && player.uid !== profile.uid)
+                .map((player) => player?.name);
+              return (
+                <li key={gameId}>
+                  <Link
+                    href={`/game/${game.code}`}
+                    className="flex items-center justify-between rounded-2xl border border-white/10 px-4 py-3 transition hover:border-hubba-green/60"
+                  >
+                    <span className="text-sm text-white">
+                      {formatWord(gameWord(game))} vs {opponents.join(', ') || 'nobody yet'}
+                    </span>
+                    <span
+                      className={cn(
+                        'text-xs uppercase tracking-[0.2em]',
+                        outcome === 'won' && 'text-hubba-green',
+                        outcome === 'lost' && 'text-hubba-orange',
+                        outcome === 'playing' && 'text-white/60'
+                      )}
+                    >
+                      {outcomeCopy[outcome]}
+                    </span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="mt-4 text-sm text-white/60">No games yet.</p>
+        )}
+      </section>
+    </div>
+  );
+}
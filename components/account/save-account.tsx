@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useGameStore } from '../../src/store/game';
+import type { SaveAccountResult } from '../../src/lib/accounts';
+
+const savedCopy: Record<SaveAccountResult, string> = {
+  linked: 'Account saved. Your games are safe even if you clear this browser.',
+  merged: 'Signed in to your saved account and moved these games over to it.',
+};
+
+/**
+ * Offers guests a permanent sign-in, and finishes an emailed link when the page is opened from
+ * one. Hidden once the account is saved.
+ */
+export const SaveAccount = () => {
+  const { actions, guest, loading } = useGameStore((state) => ({
+    actions: state.actions,
+    guest: state.guest,
+    loading: state.loading,
+  }));
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [saved, setSaved] = useState<SaveAccountResult | undefined>();
+
+  useEffect(() => {
+    actions
+      .completeSaveAccountLink()
+      .then((result) => {
+        if (!result) return;
+        setSaved(result);
+        // Drop the one-time code from the address bar.
+        window.history.replaceState(null, '', window.location.pathname);
+      })
+      .catch((err) => console.error(err));
+  }, [actions]);
+
+  if (saved) {
+    return <p className="text-sm text-hubba-green">{savedCopy[saved]}</p>;
+  }
+  if (!guest) {
+    return null;
+  }
+
+  const handleEmail = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+    await actions.sendSaveAccountLink(email.trim());
+    setLinkSent(true);
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
+      <div>
+        <h2 className="text-xl font-semibold text-white">Save your account</h2>
+        <p className="mt-1 text-sm text-white/60">
+          You are playing as a guest. Sign in to keep your games and profile on any device.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        disabled={loading}
+        onClick={() =>
+          actions
+            .saveAccountWithGoogle()
+            .then(setSaved)
+            .catch((err) => console.error(err))
+        }
+        className="self-start"
+      >
+        Continue with Google
+      </Button>
+      {linkSent ? (
+        <p className="text-sm text-white/70">
+          Check {email.trim()} for a sign-in link and open it in this browser.
+        </p>
+      ) : (
+        <form
+          onSubmit={(event) => handleEmail(event).catch((err) => console.error(err))}
+          className="flex flex-col gap-3 sm:flex-row"
+        >
+          <Input
+            type="email"
+            value={email}
+            placeholder="you@example.com"
+            onChange={(event) => setEmail(event.target.value)}
+          />
+          <Button type="submit" disabled={loading || !email.trim()} className="sm:w-auto">
+            Email me a link
+          </Button>
+        </form>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useGameStore } from '../../src/store/game';
+import { CHALLENGE_HOURS, MAX_TRICK_LENGTH } from '../../src/game/challenges';
+
+interface ChallengeFormProps {
+  handle: string;
+}
+
+/** Challenges the skater whose profile is open, optionally calling out a trick. */
+export const ChallengeForm = ({ handle }: ChallengeFormProps) => {
+  const { actions, loading } = useGameStore((state) => ({
+    actions: state.actions,
+    loading: state.loading,
+  }));
+  const [trick, setTrick] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await actions.challengeSkater(handle, trick.trim() || undefined);
+    setSent(true);
+  };
+
+  if (sent) {
+    return (
+      <p className="text-sm text-hubba-green">
+        Challenge sent. @{handle} has {CHALLENGE_HOURS} hours to answer.
+      </p>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => handleSubmit(event).catch((err) => console.error(err))}
+      className="flex flex-col gap-3 sm:flex-row"
+    >
+      <Input
+        value={trick}
+        maxLength={MAX_TRICK_LENGTH}
+        placeholder="Call out a trick (optional)"
+        onChange={(event) => setTrick(event.target.value)}
+      />
+      <Button type="submit" disabled={loading} className="sm:w-auto">
+        Challenge @{handle}
+      </Button>
+    </form>
+  );
+};
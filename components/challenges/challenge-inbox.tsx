@@ -0,0 +1,109 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '../ui/button';
+import { useGameStore } from '../../src/store/game';
+import { useChallenges } from '../../src/hooks/useChallenges';
+import { isOpenChallenge } from '../../src/game/challenges';
+import type { ChallengeEntry } from '../../src/lib/challenges';
+
+const expiresIn = (expiresAt: string) => {
+  const hours = Math.max(1, Math.round((Date.parse(expiresAt) - Date.now()) / (60 * 60 * 1000)));
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+};
+
+const trickCopy = ({ challenge }: ChallengeEntry) =>
+  challenge.trick ? ` — calls out ${challenge.trick}` : '';
+
+/**
+ * Challenges waiting on the player, with accept and decline, plus the ones they sent: still
+ * waiting, or accepted with a link into the game. Hidden when there are none.
+ */
+export const ChallengeInbox = () => {
+  const router = useRouter();
+  const { actions, loading, user } = useGameStore((state) => ({
+    actions: state.actions,
+    loading: state.loading,
+    user: state.user,
+  }));
+  const { received, sent } = useChallenges(user?.uid);
+  const now = new Date().toISOString();
+  const waiting = received.filter(({ challenge }) => isOpenChallenge(challenge, now));
+  const pending = sent.filter(({ challenge }) => isOpenChallenge(challenge, now));
+  const accepted = sent.filter(({ challenge }) => challenge.status === 'accepted');
+
+  if (!waiting.length && !pending.length && !accepted.length) {
+    return null;
+  }
+
+  const handleAnswer = async (challengeId: string, accept: boolean) => {
+    const game = await actions.answerChallenge(challengeId, accept);
+    if (game) {
+      router.push(`/game/${game.code}`);
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
+      <h2 className="text-xl font-semibold text-white">Challenges</h2>
+      <ul className="flex flex-col gap-3">
+        {waiting.map((entry) => (
+          <li
+            key={entry.challengeId}
+            className="flex flex-col gap-3 rounded-2xl border border-hubba-green/40 px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+          >
+            <p className="text-sm text-white">
+              <Link href={`/u/${entry.challenge.challengerHandle}`} className="text-hubba-green">
+                @{entry.challenge.challengerHandle}
+              </Link>{' '}
+              challenged you{trickCopy(entry)}
+              <span className="block text-xs text-white/60">
+                Expires in {expiresIn(entry.challenge.expiresAt)}
+              </span>
+            </p>
+            <div className="flex gap-2">
+              <Button
+                disabled={loading}
+                onClick={() =>
+                  handleAnswer(entry.challengeId, true).catch((err) => console.error(err))
+                }
+              >
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                disabled={loading}
+                onClick={() =>
+                  handleAnswer(entry.challengeId, false).catch((err) => console.error(err))
+                }
+              >
+                Decline
+              </Button>
+            </div>
+          </li>
+        ))}
+        {pending.map((entry) => (
+          <li
+            key={entry.challengeId}
+            className="rounded-2xl border border-white/10 px-4 py-3 text-sm text-white/70"
+          >
+            Waiting on @{entry.challenge.opponentHandle}
+            {trickCopy(entry)}
+          </li>
+        ))}
+        {accepted.map(({ challengeId, challenge }) => (
+          <li key={challengeId}>
+            <Link
+              href={`/game/${challenge.game?.code}`}
+              className="flex items-center justify-between rounded-2xl border border-hubba-green/40 px-4 py-3 text-sm text-white transition hover:border-hubba-green"
+            >
+              @{challenge.opponentHandle} accepted your challenge
+              <span className="text-xs uppercase tracking-[0.2em] text-hubba-green">Play</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,97 @@
+'use client';
+
+import {
+  FRAME_RATE_PRESETS,
+  RESOLUTION_PRESETS,
+  type CameraDevice,
+  type CaptureSettings,
+  type FrameRatePreset,
+  type ResolutionPreset,
+} from '../../src/lib/mediaCapture';
+
+interface CameraSettingsProps {
+  cameras: CameraDevice[];
+  capture: CaptureSettings;
+  onChange: (update: Partial<CaptureSettings>) => void;
+  disabled?: boolean;
+}
+
+const selectClass =
+  'rounded-xl border border-white/10 bg-black/60 px-3 py-2 text-sm text-white focus:border-hubba-green focus:outline-none focus:ring-2 focus:ring-hubba-green/70 disabled:opacity-50';
+
+const FACING_OPTIONS = [
+  { value: 'facing:environment', label: 'Back camera' },
+  { value: 'facing:user', label: 'Front camera' },
+];
+
+export const CameraSettings = ({ cameras, capture, onChange, disabled }: CameraSettingsProps) => {
+  const cameraValue = capture.deviceId ?? `facing:${capture.facingMode}`;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <label className="sr-only" htmlFor="camera-device">
+        Camera
+      </label>
+      <select
+        id="camera-device"
+        className={selectClass}
+        value={cameraValue}
+        disabled={disabled}
+        onChange={(event) => {
+          const { value } = event.target;
+          if (value.startsWith('facing:')) {
+            onChange({
+              deviceId: undefined,
+              facingMode: value === 'facing:user' ? 'user' : 'environment',
+            });
+          } else {
+            onChange({ deviceId: value });
+          }
+        }}
+      >
+        {FACING_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+        {cameras.map((camera) => (
+          <option key={camera.deviceId} value={camera.deviceId}>
+            {camera.label}
+          </option>
+        ))}
+      </select>
+      <label className="sr-only" htmlFor="camera-resolution">
+        Resolution
+      </label>
+      <select
+        id="camera-resolution"
+        className={selectClass}
+        value={capture.resolution}
+        disabled={disabled}
+        onChange={(event) => onChange({ resolution: event.target.value as ResolutionPreset })}
+      >
+        {Object.entries(RESOLUTION_PRESETS).map(([key, preset]) => (
+          <option key={key} value={key}>
+            {preset.label}
+          </option>
+        ))}
+      </select>
+      <label className="sr-only" htmlFor="camera-frame-rate">
+        Frame rate
+      </label>
+      <select
+        id="camera-frame-rate"
+        className={selectClass}
+        value={capture.frameRate}
+        disabled={disabled}
+        onChange={(event) => onChange({ frameRate: Number(event.target.value) as FrameRatePreset })}
+      >
+        {FRAME_RATE_PRESETS.map((rate) => (
+          <option key={rate} value={rate}>
+            {rate} fps
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+import type { ClipDocument } from '../../src/store/game';
+import { formatCountdown } from '../../src/hooks/useCountdown';
+import { useClipUrl } from '../../src/hooks/useClipUrl';
+
+interface ClipPreviewProps {
+  storagePath: string;
+  clip?: ClipDocument;
+  /** Recorder-timed length from the history entry, shown until the clip is processed. */
+  durationMs?: number;
+  label: string;
+}
+
+/** Shows the clip's poster frame and only fetches the video once someone presses play. */
+export const ClipPreview = ({ storagePath, clip, durationMs, label }: ClipPreviewProps) => {
+  const [playing, setPlaying] = useState(false);
+  const length = durationMs ?? clip?.durationMs;
+  const { url, error, onMediaError } = useClipUrl(playing ? storagePath : undefined);
+  const { url: thumbUrl } = useClipUrl(clip?.thumbPath);
+
+  if (playing) {
+    if (!url || error) {
+      return (
+        <div className="flex aspect-video w-full items-center justify-center rounded-xl border border-white/10 bg-black text-xs text-white/60">
+          {error ?? 'Loading clip…'}
+        </div>
+      );
+    }
+    return (
+      <video
+        controls
+        autoPlay
+        playsInline
+        poster={thumbUrl}
+        className="aspect-video w-full rounded-xl border border-white/10 bg-black"
+        src={url}
+        onError={onMediaError}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setPlaying(true)}
+      className="group relative aspect-video w-full overflow-hidden rounded-xl border border-white/10 bg-black/60"
+      aria-label={`Play ${label}`}
+    >
+      {clip ? (
+        thumbUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={thumbUrl} alt="" className="h-full w-full object-cover" loading="lazy" />
+        ) : null
+      ) : (
+        <span className="absolute left-3 top-2 text-xs text-white/50">Processing clip…</span>
+      )}
+      <span className="absolute inset-0 flex items-center justify-center bg-black/30 text-sm font-semibold text-white transition group-hover:bg-black/10">
+        ▶ {label}
+      </span>
+      {length !== undefined ? (
+        <span className="absolute bottom-2 right-2 rounded-full bg-black/70 px-2 py-0.5 text-xs tabular-nums text-white">
+          {formatCountdown(length)}
+        </span>
+      ) : null}
+    </button>
+  );
+};
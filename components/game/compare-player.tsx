@@ -0,0 +1,321 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '../ui/button';
+import { useClipUrl } from '../../src/hooks/useClipUrl';
+import { cn } from '../../src/utils/cn';
+
+interface ComparePlayerProps {
+  setPath: string;
+  responsePath: string;
+  setLabel: string;
+  responseLabel: string;
+  /** Recorder-timed lengths, used while the browser can't report one (MediaRecorder WebM). */
+  setDurationMs?: number;
+  responseDurationMs?: number;
+}
+
+type Layout = 'side' | 'overlay';
+type Clip = 'set' | 'response';
+
+// Resync the response when it wanders more than about a frame from the set.
+const DRIFT_TOLERANCE_S = 0.05;
+const NUDGE_S = 0.1;
+
+const durationOf = (video: HTMLVideoElement | null, fallbackMs?: number) =>
+  video && Number.isFinite(video.duration) ? video.duration : (fallbackMs ?? 0) / 1000;
+
+const seconds = (value: number) => `${value.toFixed(2)}s`;
+
+/**
+ * Plays the set and the response on one shared timeline so the judge can compare them. Each clip
+ * gets its own start offset to line the tricks up, and an optional range loops the key moment.
+ */
+export const ComparePlayer = ({
+  setPath,
+  responsePath,
+  setLabel,
+  responseLabel,
+  setDurationMs,
+  responseDurationMs,
+}: ComparePlayerProps) => {
+  const setRef = useRef<HTMLVideoElement>(null);
+  const responseRef = useRef<HTMLVideoElement>(null);
+  const frameRef = useRef<number>();
+  const [layout, setLayout] = useState<Layout>('side');
+  const [opacity, setOpacity] = useState(0.5);
+  const [offsets, setOffsets] = useState<Record<Clip, number>>({ set: 0, response: 0 });
+  const [durations, setDurations] = useState<Record<Clip, number>>({
+    set: (setDurationMs ?? 0) / 1000,
+    response: (responseDurationMs ?? 0) / 1000,
+  });
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState({ enabled: false, start: 0, end: 0 });
+  const setClip = useClipUrl(setPath);
+  const responseClip = useClipUrl(responsePath);
+  const error = setClip.error ?? responseClip.error;
+
+  const length = Math.max(
+    0,
+    Math.min(durations.set - offsets.set, durations.response - offsets.response)
+  );
+  const rangeStart = loop.enabled ? Math.min(loop.start, length) : 0;
+  const rangeEnd = loop.enabled && loop.end > rangeStart ? Math.min(loop.end, length) : length;
+
+  const seek = useCallback(
+    (time: number) => {
+      if (setRef.current) {
+        setRef.current.currentTime = time + offsets.set;
+      }
+      if (responseRef.current) {
+        responseRef.current.currentTime = time + offsets.response;
+      }
+      setPosition(time);
+    },
+    [offsets]
+  );
+
+  const pause = useCallback(() => {
+    setRef.current?.pause();
+    responseRef.current?.pause();
+    setPlaying(false);
+  }, []);
+
+  const play = async () => {
+    if (position >= rangeEnd || position < rangeStart) {
+      seek(rangeStart);
+    }
+    try {
+      await Promise.all([setRef.current?.play(), responseRef.current?.play()]);
+      setPlaying(true);
+    } catch (err) {
+      console.error(err);
+      pause();
+    }
+  };
+
+  useEffect(() => {
+    if (!playing) {
+      return undefined;
+    }
+    const tick = () => {
+      const set = setRef.current;
+      const response = responseRef.current;
+      if (!set || !response) {
+        return;
+      }
+      const time = set.currentTime - offsets.set;
+      if (time >= rangeEnd) {
+        if (loop.enabled) {
+          seek(rangeStart);
+        } else {
+          pause();
+          seek(rangeEnd);
+          return;
+        }
+      } else {
+        const target = time + offsets.response;
+        if (Math.abs(response.currentTime - target) > DRIFT_TOLERANCE_S) {
+          response.currentTime = target;
+        }
+        setPosition(time);
+      }
+      frameRef.current = window.requestAnimationFrame(tick);
+    };
+    frameRef.current = window.requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current !== undefined) {
+        window.cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [loop.enabled, offsets, pause, playing, rangeEnd, rangeStart, seek]);
+
+  const updateDuration = (clip: Clip) => () => {
+    const fallback = clip === 'set' ? setDurationMs : responseDurationMs;
+    const video = clip === 'set' ? setRef.current : responseRef.current;
+    setDurations((current) => ({ ...current, [clip]: durationOf(video, fallback) }));
+  };
+
+  const nudge = (clip: Clip, delta: number) => {
+    pause();
+    const offset = Math.min(Math.max(0, offsets[clip] + delta), durations[clip]);
+    setOffsets((current) => ({ ...current, [clip]: offset }));
+    // Only the nudged clip moves; the other keeps showing the shared position.
+    const video = clip === 'set' ? setRef.current : responseRef.current;
+    if (video) {
+      video.currentTime = position + offset;
+    }
+  };
+
+  const videoClass =
+    'aspect-video w-full rounded-xl border border-white/10 bg-black object-contain';
+
+  return (
+    <section className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/30 p-4">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xs uppercase tracking-[0.3em] text-white/60">Set vs response</h3>
+        <div className="flex gap-2">
+          {(['side', 'overlay'] as const).map((option) => (
+            <Button
+              key={option}
+              type="button"
+              variant={layout === option ? 'default' : 'outline'}
+              onClick={() => setLayout(option)}
+              className="px-3 py-1 text-xs"
+            >
+              {option === 'side' ? 'Side by side' : 'Overlay'}
+            </Button>
+          ))}
+        </div>
+      </header>
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+
+      <div className={cn(layout === 'side' ? 'grid gap-3 sm:grid-cols-2' : 'relative')}>
+        <figure className="flex flex-col gap-1">
+          <video
+            ref={setRef}
+            src={setClip.url}
+            onError={setClip.onMediaError}
+            playsInline
+            preload="auto"
+            onLoadedMetadata={updateDuration('set')}
+            onDurationChange={updateDuration('set')}
+            className={videoClass}
+          />
+          {layout === 'side' ? (
+            <figcaption className="text-xs text-white/60">{setLabel}</figcaption>
+          ) : null}
+        </figure>
+        <figure
+          className={cn('flex flex-col gap-1', layout === 'overlay' && 'absolute inset-0')}
+          style={layout === 'overlay' ? { opacity } : undefined}
+        >
+          <video
+            ref={responseRef}
+            src={responseClip.url}
+            onError={responseClip.onMediaError}
+            playsInline
+            muted
+            preload="auto"
+            onLoadedMetadata={updateDuration('response')}
+            onDurationChange={updateDuration('response')}
+            className={videoClass}
+          />
+          {layout === 'side' ? (
+            <figcaption className="text-xs text-white/60">{responseLabel}</figcaption>
+          ) : null}
+        </figure>
+      </div>
+
+      {layout === 'overlay' ? (
+        <label className="flex items-center gap-3 text-xs text-white/60">
+          {setLabel}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={opacity}
+            onChange={(event) => setOpacity(Number(event.target.value))}
+            className="flex-1 accent-hubba-green"
+          />
+          {responseLabel}
+        </label>
+      ) : null}
+
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          onClick={playing ? pause : play}
+          disabled={length <= 0}
+          className="w-24 justify-center"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </Button>
+        <input
+          type="range"
+          aria-label="Position"
+          min={0}
+          max={length}
+          step={0.01}
+          value={Math.min(position, length)}
+          onChange={(event) => {
+            pause();
+            seek(Number(event.target.value));
+          }}
+          className="flex-1 accent-hubba-green"
+        />
+        <span className="w-28 text-right text-xs tabular-nums text-white/60">
+          {seconds(position)} / {seconds(length)}
+        </span>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(['set', 'response'] as const).map((clip) => (
+          <div key={clip} className="flex items-center gap-2 text-xs text-white/60">
+            <span className="flex-1">
+              {clip === 'set' ? setLabel : responseLabel} starts at {seconds(offsets[clip])}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => nudge(clip, -NUDGE_S)}
+              className="px-2 py-1 text-xs"
+              aria-label={`Start ${clip} earlier`}
+            >
+              −
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => nudge(clip, NUDGE_S)}
+              className="px-2 py-1 text-xs"
+              aria-label={`Start ${clip} later`}
+            >
+              +
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-white/60">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={loop.enabled}
+            onChange={(event) =>
+              setLoop({
+                enabled: event.target.checked,
+                start: Math.min(position, length),
+                end: length,
+              })
+            }
+            className="accent-hubba-green"
+          />
+          Loop range
+        </label>
+        {loop.enabled ? (
+          <>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setLoop((current) => ({ ...current, start: position }))}
+              className="px-2 py-1 text-xs"
+            >
+              Start here ({seconds(rangeStart)})
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setLoop((current) => ({ ...current, end: position }))}
+              className="px-2 py-1 text-xs"
+            >
+              End here ({seconds(rangeEnd)})
+            </Button>
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+};
@@ -1,9 +1,23 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '../ui/button';
-import type { GameDocument, GamePhase, GameStoreState, PlayerSlot } from '../../src/store/game';
+import type {
+  ClipDocument,
+  GameDocument,
+  GamePhase,
+  GameStoreState,
+  PlayerSlot
+} from '../../src/store/game';
 import { useRecording } from '../../src/hooks/useRecording';
+import { CameraSettings } from './camera-settings';
+import { ComparePlayer } from './compare-player';
+import { CountdownRing } from './countdown-ring';
+import { PendingUploads } from './pending-uploads';
+import { ReviewPlayer } from './review-player';
+import { TakeReview } from './take-review';
+import { formatCountdown, useCountdown } from '../../src/hooks/useCountdown';
+import { canRetake, clipLimitMs, gameShotClock } from '../../src/game/rules';
 import { cn } from '../../src/utils/cn';
 
 interface ControlPanelProps {
@@ -13,6 +27,8 @@ interface ControlPanelProps {
   role?: PlayerSlot;
   loading: boolean;
   actions: GameStoreState['actions'];
+  /** Processed clips keyed by storage path; flags lookalikes of earlier uploads to the judge. */
+  clips: Record<string, ClipDocument>;
 }
 
 const phaseCopy: Record<GamePhase, { title: string; subtitle: string }> = {
@@ -22,29 +38,70 @@ const phaseCopy: Record<GamePhase, { title: string; subtitle: string }> = {
   RESP_JUDGE: { title: 'Judge the response', subtitle: 'Confirm if the trick was landed clean.' }
 };
 
-export const ControlPanel = ({ game, guards, gameId, role, loading, actions }: ControlPanelProps) => {
+export const ControlPanel = ({
+  game,
+  guards,
+  gameId,
+  role,
+  loading,
+  actions,
+  clips
+}: ControlPanelProps) => {
   const shooter = game.current.by;
   const phase = game.phase;
   const isShooter = guards.isShooter;
+  const maxDurationMs = clipLimitMs(game);
 
-  const { status, progress, error, startRecording, stopRecording } = useRecording({
+  const {
+    status,
+    progress,
+    error,
+    elapsedMs,
+    take,
+    submitTake,
+    discardTake,
+    cameras,
+    capture,
+    setCapture,
+    pendingUploads,
+    retryUpload,
+    discardUpload,
+    startRecording,
+    stopRecording
+  } = useRecording({
     gameId,
     phase,
     shooter,
-    onUploaded: async (path) => {
-      if (phase === 'SET_RECORD') {
-        await actions.submitSetClip(path);
-      } else if (phase === 'RESP_RECORD') {
-        await actions.submitResponseClip(path);
+    uid: game.players[shooter]?.uid,
+    startSession: actions.startRecordingSession,
+    claimSession: actions.claimRecordingSession,
+    maxDurationMs,
+    onUploaded: async (path, clip) => {
+      if (clip.phase === 'SET_RECORD') {
+        await actions.submitSetClip(path, clip.durationMs);
+      } else if (clip.phase === 'RESP_RECORD') {
+        await actions.submitResponseClip(path, clip.durationMs);
       }
     },
     onError: (err) => console.error(err)
   });
 
   const isRecording = status === 'recording';
-  const isUploading = status === 'uploading';
+  const isUploading =
+    status === 'trimming' || status === 'compressing' || status === 'uploading';
+  const uploadLabel =
+    status === 'trimming' ? 'Trimming' : status === 'compressing' ? 'Compressing' : 'Uploading';
 
   const copy = useMemo(() => phaseCopy[phase], [phase]);
+  const remaining = useCountdown(game.deadline);
+  const { defaultVerdict } = gameShotClock(game);
+  const { setVideoPath, responseVideoPath } = game.current;
+  const nameOf = (slot: PlayerSlot) => game.players[slot]?.name ?? slot;
+  const [judgeView, setJudgeView] = useState<'review' | 'compare'>('review');
+  const reviewPath =
+    phase === 'SET_JUDGE' ? setVideoPath : phase === 'RESP_JUDGE' ? responseVideoPath : undefined;
+  const canCompare = phase === 'RESP_JUDGE' && !!setVideoPath && !!responseVideoPath;
+  const duplicateOf = reviewPath ? clips[reviewPath]?.duplicateOf : undefined;
 
   const handleSelfFail = async () => {
     if (phase === 'SET_RECORD') {
@@ -61,23 +118,62 @@ export const ControlPanel = ({ game, guards, gameId, role, loading, actions }: C
           <h2 className="text-xl font-semibold text-white">{copy.title}</h2>
           <p className="text-sm text-white/60">{copy.subtitle}</p>
         </div>
-        <span className="rounded-full border border-white/10 px-3 py-1 text-xs uppercase tracking-[0.3em] text-white/70">
-          Turn: {game.turn}
-        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          {remaining !== undefined ? (
+            <span
+              className={cn(
+                'rounded-full border px-3 py-1 text-xs uppercase tracking-[0.3em] tabular-nums',
+                remaining > 0 ? 'border-white/10 text-white/70' : 'border-red-500/60 text-red-400'
+              )}
+            >
+              {remaining > 0 ? `Clock: ${formatCountdown(remaining)}` : 'Time up'}
+            </span>
+          ) : null}
+          <span className="rounded-full border border-white/10 px-3 py-1 text-xs uppercase tracking-[0.3em] text-white/70">
+            Turn: {game.turn}
+          </span>
+        </div>
       </header>
       <div className="mt-6 flex flex-wrap items-center gap-4">
         {guards.canRecord ? (
           <div className="flex flex-col gap-3">
-            <Button
-              onClick={isRecording ? stopRecording : startRecording}
-              disabled={loading || isUploading}
-              className={cn(
-                'w-48 justify-center bg-red-500 text-black hover:bg-red-400',
-                isRecording && 'animate-pulse bg-red-600'
-              )}
-            >
-              {isRecording ? 'Stop Recording' : 'Record Clip'}
-            </Button>
+            {take ? (
+              <TakeReview
+                key={take.url}
+                take={take}
+                maxDurationMs={maxDurationMs}
+                canRetake={canRetake(game, take.phase)}
+                busy={loading || isUploading}
+                onSubmit={(range) => {
+                  submitTake(range).catch((err) => console.error(err));
+                }}
+                onRetake={discardTake}
+              />
+            ) : (
+              <div className="flex items-center gap-4">
+                <Button
+                  onClick={isRecording ? stopRecording : startRecording}
+                  disabled={loading || isUploading}
+                  className={cn(
+                    'w-48 justify-center bg-red-500 text-black hover:bg-red-400',
+                    isRecording && 'animate-pulse bg-red-600'
+                  )}
+                >
+                  {isRecording ? 'Stop Recording' : 'Record Clip'}
+                </Button>
+                {isRecording ? (
+                  <CountdownRing elapsedMs={elapsedMs} totalMs={maxDurationMs} />
+                ) : (
+                  <span className="text-xs text-white/60">Max {maxDurationMs / 1000}s per clip</span>
+                )}
+              </div>
+            )}
+            <CameraSettings
+              cameras={cameras}
+              capture={capture}
+              onChange={setCapture}
+              disabled={isRecording || !!take}
+            />
             {isShooter ? (
               <Button
                 variant="outline"
@@ -88,14 +184,58 @@ export const ControlPanel = ({ game, guards, gameId, role, loading, actions }: C
               </Button>
             ) : null}
             {isUploading ? (
-              <p className="text-xs text-white/60">Uploading… {progress}%</p>
+              <p className="text-xs text-white/60">
+                {uploadLabel}… {progress}%
+              </p>
             ) : null}
             {error ? <p className="text-xs text-red-400">{error}</p> : null}
+            <p className="text-xs text-white/60">Let the clock run out and it counts as a bail.</p>
           </div>
         ) : null}
         {guards.canApprove ? (
-          <div className="flex flex-col gap-3">
-            <div className="flex gap-3">
+          <div className="flex w-full flex-col gap-3">
+            {duplicateOf ? (
+              <p className="rounded-2xl border border-hubba-orange/40 bg-hubba-orange/10 px-4 py-3 text-xs text-hubba-orange">
+                Heads up: this clip {duplicateOf.kind === 'exact' ? 'is a copy of' : 'looks like'}{' '}
+                {duplicateOf.gameId === gameId
+                  ? 'an earlier clip from this game'
+                  : 'a clip uploaded in another game'}
+                . Make sure the attempt is live before you approve it.
+              </p>
+            ) : null}
+            {canCompare ? (
+              <div className="flex gap-2">
+                {(['review', 'compare'] as const).map((view) => (
+                  <Button
+                    key={view}
+                    type="button"
+                    variant={judgeView === view ? 'default' : 'outline'}
+                    onClick={() => setJudgeView(view)}
+                    className="px-3 py-1 text-xs"
+                  >
+                    {view === 'review' ? 'Slow-mo review' : 'Compare with set'}
+                  </Button>
+                ))}
+              </div>
+            ) : null}
+            {canCompare && judgeView === 'compare' ? (
+              <ComparePlayer
+                key={responseVideoPath}
+                setPath={setVideoPath}
+                responsePath={responseVideoPath}
+                setLabel={`${nameOf(game.turn)}’s set`}
+                responseLabel={`${nameOf(shooter)}’s response`}
+                setDurationMs={game.current.setDurationMs}
+                responseDurationMs={game.current.responseDurationMs}
+              />
+            ) : reviewPath ? (
+              <ReviewPlayer
+                storagePath={reviewPath}
+                label={`${nameOf(shooter)}’s ${phase === 'SET_JUDGE' ? 'set' : 'response'}`}
+              />
+            ) : null}
+            {/* Stays pinned to the bottom of the viewport while the review tools scroll past. */}
+            <div className="sticky bottom-4 z-10 flex gap-3 self-start rounded-full border border-white/10 bg-black/80 p-2 backdrop-blur">
               <Button
                 className="bg-hubba-green text-black hover:bg-hubba-green/90"
                 disabled={loading}
@@ -124,7 +264,10 @@ export const ControlPanel = ({ game, guards, gameId, role, loading, actions }: C
               </Button>
             </div>
             <p className="text-xs text-white/60">
-              Only non-shooters judge. The current shooter is {shooter === 'A' ? game.players.A?.name : game.players.B?.name}.
+              You are judging {nameOf(shooter)}’s attempt.
+            </p>
+            <p className="text-xs text-white/60">
+              If the clock runs out the call defaults to {defaultVerdict === 'approve' ? 'Approve' : 'Decline'}.
             </p>
           </div>
         ) : null}
@@ -134,6 +277,7 @@ export const ControlPanel = ({ game, guards, gameId, role, loading, actions }: C
           </p>
         ) : null}
       </div>
+      <PendingUploads uploads={pendingUploads} onRetry={retryUpload} onDiscard={discardUpload} />
       {role && (
         <footer className="mt-6 text-xs text-white/50">
           You are playing as {role}. Shooter: {shooter}. Phase: {phase}.
@@ -0,0 +1,58 @@
+'use client';
+
+import { cn } from '../../src/utils/cn';
+
+interface CountdownRingProps {
+  elapsedMs: number;
+  totalMs: number;
+  className?: string;
+}
+
+const RADIUS = 26;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+// Turns red for the final stretch so the shooter knows the recorder is about to cut.
+const WARNING_MS = 3000;
+
+export const CountdownRing = ({ elapsedMs, totalMs, className }: CountdownRingProps) => {
+  const remainingMs = Math.max(0, totalMs - elapsedMs);
+  const fraction = totalMs > 0 ? remainingMs / totalMs : 0;
+  const warning = remainingMs <= WARNING_MS;
+
+  return (
+    <div
+      className={cn('relative flex h-16 w-16 items-center justify-center', className)}
+      role="timer"
+      aria-label={`${Math.ceil(remainingMs / 1000)} seconds left`}
+    >
+      <svg viewBox="0 0 64 64" className="absolute inset-0 -rotate-90">
+        <circle
+          cx="32"
+          cy="32"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="6"
+          className="stroke-white/10"
+        />
+        <circle
+          cx="32"
+          cy="32"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="6"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          className={cn(
+            'transition-[stroke-dashoffset] duration-100 ease-linear',
+            warning ? 'stroke-red-500' : 'stroke-hubba-green'
+          )}
+        />
+      </svg>
+      <span
+        className={cn('text-lg font-bold tabular-nums', warning ? 'text-red-400' : 'text-white')}
+      >
+        {Math.ceil(remainingMs / 1000)}
+      </span>
+    </div>
+  );
+};
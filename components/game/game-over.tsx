@@ -0,0 +1,60 @@
+'use client';
+
+import Link from 'next/link';
+import type { GameDocument, PlayerSlot } from '../../src/store/game';
+import { formatRatingDelta } from '../../src/game/ratings';
+import { seatedSlots } from '../../src/game/rules';
+import { cn } from '../../src/utils/cn';
+
+interface GameOverProps {
+  game: GameDocument;
+  role?: PlayerSlot;
+}
+
+/** Who won and how each seat's rating moved. Renders nothing until the game has a winner. */
+export const GameOver = ({ game, role }: GameOverProps) => {
+  const winner = game.winner;
+  if (!winner) {
+    return null;
+  }
+
+  const ratings = game.ratings ?? {};
+  return (
+    <section className="rounded-3xl border border-hubba-green/40 bg-black/40 p-6 shadow-xl backdrop-blur">
+      <p className="text-xs uppercase tracking-[0.3em] text-white/60">Game Over</p>
+      <h2 className="mt-1 text-2xl font-bold text-white">
+        {role === winner ? 'You win!' : `${game.players[winner]?.name ?? winner} wins`}
+      </h2>
+      <ul className="mt-4 flex flex-col gap-2">
+        {seatedSlots(game).map((slot) => {
+          const change = ratings[slot];
+          return (
+            <li key={slot} className="flex items-center justify-between text-sm">
+              <span className={cn('text-white/80', slot === role && 'font-semibold text-white')}>
+                {game.players[slot]?.name ?? slot}
+              </span>
+              {change ? (
+                <span>
+                  <span className="text-white/60">{change.after}</span>{' '}
+                  <span
+                    className={cn(
+                      'font-semibold',
+                      change.after >= change.before ? 'text-hubba-green' : 'text-hubba-orange'
+                    )}
+                  >
+                    {formatRatingDelta(change)}
+                  </span>
+                </span>
+              ) : (
+                <span className="text-white/40">Unrated</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <Link href="/leaderboard" className="mt-4 inline-block text-sm text-hubba-green">
+        See the leaderboard
+      </Link>
+    </section>
+  );
+};
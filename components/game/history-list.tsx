@@ -1,9 +1,19 @@
 'use client';
 
-import type { GameHistoryEntry, PlayerSlot } from '../../src/store/game';
+import type {
+  ClipDocument,
+  GameDocument,
+  GameHistoryEntry,
+  PlayerSlot
+} from '../../src/store/game';
+import { formatWord } from '../../src/game/rules';
+import { ClipPreview } from './clip-preview';
 
 interface HistoryListProps {
   history: GameHistoryEntry[];
+  word: string;
+  players: GameDocument['players'];
+  clips: Record<string, ClipDocument>;
 }
 
 const resultCopy: Record<GameHistoryEntry['result'], string> = {
@@ -13,12 +23,9 @@ const resultCopy: Record<GameHistoryEntry['result'], string> = {
   failed: 'Response Failed'
 };
 
-const slotCopy: Record<PlayerSlot, string> = {
-  A: 'Setter',
-  B: 'Responder'
-};
+export const HistoryList = ({ history, word, players, clips }: HistoryListProps) => {
+  const nameOf = (slot: PlayerSlot) => players[slot]?.name ?? `Player ${slot}`;
 
-export const HistoryList = ({ history }: HistoryListProps) => {
   if (!history.length) {
     return (
       <p className="text-sm text-white/60">Clips you record will appear here with approvals.</p>
@@ -38,9 +45,23 @@ export const HistoryList = ({ history }: HistoryListProps) => {
             <header className="flex flex-wrap items-center justify-between gap-3">
               <div>
                 <p className="text-xs uppercase tracking-[0.3em] text-white/50">
-                  {slotCopy[entry.by]} • {new Date(entry.ts).toLocaleString()}
+                  {nameOf(entry.by)}
+                  {entry.responder ? ` vs ${nameOf(entry.responder)}` : ''} •{' '}
+                  {new Date(entry.ts).toLocaleString()}
+                </p>
+                <p className="text-sm font-semibold text-white">
+                  {resultCopy[entry.result]}
+                  {entry.letter ? (
+                    <span className="text-hubba-orange">
+                      {' '}
+                      • Took {entry.letter} of {formatWord(word)}
+                    </span>
+                  ) : null}
+                  {entry.eliminated && entry.responder ? (
+                    <span className="text-red-400"> • {nameOf(entry.responder)} is out</span>
+                  ) : null}
+                  {entry.timedOut ? <span className="text-red-400"> • Shot clock ran out</span> : null}
                 </p>
-                <p className="text-sm font-semibold text-white">{resultCopy[entry.result]}</p>
               </div>
               <div className="flex gap-2 text-xs text-white/60">
                 {entry.setPath ? <span>Set clip saved</span> : null}
@@ -49,19 +70,19 @@ export const HistoryList = ({ history }: HistoryListProps) => {
             </header>
             <div className="grid gap-4 sm:grid-cols-2">
               {entry.setPath ? (
-                <video
-                  controls
-                  preload="metadata"
-                  className="w-full rounded-xl border border-white/10"
-                  src={`https://firebasestorage.googleapis.com/v0/b/${process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET}/o/${encodeURIComponent(entry.setPath)}?alt=media`}
+                <ClipPreview
+                  storagePath={entry.setPath}
+                  clip={clips[entry.setPath]}
+                  durationMs={entry.setDurationMs}
+                  label="Set"
                 />
               ) : null}
               {entry.respPath ? (
-                <video
-                  controls
-                  preload="metadata"
-                  className="w-full rounded-xl border border-white/10"
-                  src={`https://firebasestorage.googleapis.com/v0/b/${process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET}/o/${encodeURIComponent(entry.respPath)}?alt=media`}
+                <ClipPreview
+                  storagePath={entry.respPath}
+                  clip={clips[entry.respPath]}
+                  durationMs={entry.respDurationMs}
+                  label="Response"
                 />
               ) : null}
             </div>
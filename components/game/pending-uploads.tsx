@@ -0,0 +1,74 @@
+'use client';
+
+import type { PendingUpload } from '../../src/hooks/useClipQueue';
+import type { GamePhase } from '../../src/store/game';
+import { Button } from '../ui/button';
+
+interface PendingUploadsProps {
+  uploads: PendingUpload[];
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => Promise<void>;
+}
+
+const phaseCopy: Partial<Record<GamePhase, string>> = {
+  SET_RECORD: 'Set clip',
+  RESP_RECORD: 'Response clip',
+};
+
+const statusCopy = ({ status, progress, error, clip }: PendingUpload) => {
+  if (status === 'compressing') {
+    return `Compressing… ${progress}%`;
+  }
+  if (status === 'uploading') {
+    return clip.uploaded ? 'Submitting…' : `Uploading… ${progress}%`;
+  }
+  if (status === 'failed') {
+    return error ?? 'Upload failed';
+  }
+  return 'Waiting for a connection';
+};
+
+export const PendingUploads = ({ uploads, onRetry, onDiscard }: PendingUploadsProps) => {
+  if (!uploads.length) {
+    return null;
+  }
+
+  return (
+    <section className="mt-6 flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+      <h3 className="text-xs uppercase tracking-[0.3em] text-white/60">Pending uploads</h3>
+      <ul className="flex flex-col gap-3">
+        {uploads.map((upload) => (
+          <li key={upload.clip.id} className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-sm font-semibold text-white">
+                {phaseCopy[upload.clip.phase] ?? 'Clip'} •{' '}
+                {new Date(upload.clip.createdAt).toLocaleTimeString()}
+              </p>
+              <p
+                className={
+                  upload.status === 'failed' ? 'text-xs text-red-400' : 'text-xs text-white/60'
+                }
+              >
+                {statusCopy(upload)}
+              </p>
+            </div>
+            {upload.status === 'compressing' || upload.status === 'uploading' ? null : (
+              <div className="flex gap-2">
+                <Button className="px-4 py-2 text-sm" onClick={() => onRetry(upload.clip.id)}>
+                  Retry
+                </Button>
+                <Button
+                  variant="outline"
+                  className="px-4 py-2 text-sm"
+                  onClick={() => onDiscard(upload.clip.id).catch((err) => console.error(err))}
+                >
+                  Discard
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
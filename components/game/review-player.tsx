@@ -0,0 +1,261 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { Button } from '../ui/button';
+import { useClipUrl } from '../../src/hooks/useClipUrl';
+
+interface ReviewPlayerProps {
+  storagePath: string;
+  label: string;
+}
+
+const SPEEDS = [0.25, 0.5, 1] as const;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+// Until the browser reports real frame timings, assume the 30 fps the recorder asks for.
+const DEFAULT_FRAME_S = 1 / 30;
+
+const SHORTCUTS = [
+  ['Space', 'play / pause'],
+  ['← →', 'step a frame'],
+  ['1 2 3', '¼×, ½×, 1×'],
+  ['+ −', 'zoom'],
+  ['0', 'reset zoom'],
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keys typed into a form control or pressed on a button belong to that element.
+const isInteractive = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'].includes(target.tagName));
+
+/**
+ * Single-clip player for judging: slow motion, frame stepping and zoom with drag-to-pan, all on
+ * the keyboard as well. Frame length is measured from `requestVideoFrameCallback` where available.
+ */
+export const ReviewPlayer = ({ storagePath, label }: ReviewPlayerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const frameRef = useRef(DEFAULT_FRAME_S);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const { url, error, onMediaError } = useClipUrl(storagePath);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !('requestVideoFrameCallback' in video)) {
+      return undefined;
+    }
+    let handle = 0;
+    let last: VideoFrameCallbackMetadata | undefined;
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (last && metadata.presentedFrames === last.presentedFrames + 1) {
+        const delta = metadata.mediaTime - last.mediaTime;
+        if (delta > 0 && delta < 0.2) {
+          frameRef.current = delta;
+        }
+      }
+      last = metadata;
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [url]);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    if (video.paused) {
+      video.play().catch((err) => console.error(err));
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  const step = useCallback((frames: number) => {
+    const video = videoRef.current;
+    if (!video) {
+      return;
+    }
+    video.pause();
+    const end = Number.isFinite(video.duration) ? video.duration : Number.MAX_SAFE_INTEGER;
+    video.currentTime = clamp(video.currentTime + frames * frameRef.current, 0, end);
+  }, []);
+
+  const changeSpeed = useCallback((rate: number) => {
+    if (videoRef.current) {
+      videoRef.current.playbackRate = rate;
+    }
+    setSpeed(rate);
+  }, []);
+
+  const changeZoom = useCallback((delta: number) => {
+    setZoom((current) => clamp(current + delta, MIN_ZOOM, MAX_ZOOM));
+  }, []);
+
+  const resetZoom = useCallback(() => setZoom(MIN_ZOOM), []);
+
+  useEffect(() => {
+    if (zoom === MIN_ZOOM) {
+      setPan({ x: 0, y: 0 });
+    }
+  }, [zoom]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isInteractive(event.target)) {
+        return;
+      }
+      const actions: Record<string, () => void> = {
+        ' ': togglePlay,
+        ArrowLeft: () => step(-1),
+        ',': () => step(-1),
+        ArrowRight: () => step(1),
+        '.': () => step(1),
+        '1': () => changeSpeed(SPEEDS[0]),
+        '2': () => changeSpeed(SPEEDS[1]),
+        '3': () => changeSpeed(SPEEDS[2]),
+        '+': () => changeZoom(ZOOM_STEP),
+        '=': () => changeZoom(ZOOM_STEP),
+        '-': () => changeZoom(-ZOOM_STEP),
+        '0': resetZoom,
+      };
+      const action = actions[event.key];
+      if (action) {
+        event.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [changeSpeed, changeZoom, resetZoom, step, togglePlay]);
+
+  const onPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (zoom === MIN_ZOOM) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) {
+      return;
+    }
+    const { width, height } = event.currentTarget.getBoundingClientRect();
+    // Keep the zoomed frame covering the viewport.
+    const maxX = (width * (zoom - 1)) / 2;
+    const maxY = (height * (zoom - 1)) / 2;
+    setPan((current) => ({
+      x: clamp(current.x + event.clientX - start.x, -maxX, maxX),
+      y: clamp(current.y + event.clientY - start.y, -maxY, maxY),
+    }));
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <section className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+      <h3 className="text-xs uppercase tracking-[0.3em] text-white/60">Review {label}</h3>
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+      <div
+        className="relative aspect-video w-full touch-none overflow-hidden rounded-xl border border-white/10 bg-black"
+        style={{ cursor: zoom > MIN_ZOOM ? 'grab' : undefined }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onWheel={(event) => changeZoom(event.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP)}
+      >
+        <video
+          key={url}
+          ref={videoRef}
+          src={url}
+          onError={onMediaError}
+          playsInline
+          preload="auto"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onLoadedMetadata={(event) => {
+            event.currentTarget.playbackRate = speed;
+          }}
+          className="h-full w-full object-contain"
+          style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          onClick={togglePlay}
+          className="w-24 justify-center px-3 py-1 text-sm"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => step(-1)}
+          className="px-3 py-1 text-sm"
+          aria-label="Previous frame"
+        >
+          ◀︎ Frame
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => step(1)}
+          className="px-3 py-1 text-sm"
+          aria-label="Next frame"
+        >
+          Frame ▶︎
+        </Button>
+        {SPEEDS.map((rate) => (
+          <Button
+            key={rate}
+            type="button"
+            variant={speed === rate ? 'default' : 'outline'}
+            onClick={() => changeSpeed(rate)}
+            className="px-3 py-1 text-sm"
+          >
+            {rate}×
+          </Button>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => changeZoom(-ZOOM_STEP)}
+          disabled={zoom === MIN_ZOOM}
+          className="px-3 py-1 text-sm"
+          aria-label="Zoom out"
+        >
+          −
+        </Button>
+        <span className="w-10 text-center text-xs tabular-nums text-white/60">{zoom}×</span>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => changeZoom(ZOOM_STEP)}
+          disabled={zoom === MAX_ZOOM}
+          className="px-3 py-1 text-sm"
+          aria-label="Zoom in"
+        >
+          +
+        </Button>
+      </div>
+      <p className="text-xs text-white/40">
+        {SHORTCUTS.map(([keys, action]) => `${keys} ${action}`).join(' · ')}
+      </p>
+    </section>
+  );
+};
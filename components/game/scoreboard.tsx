@@ -1,6 +1,10 @@
 'use client';
 
+import Link from 'next/link';
 import type { GameDocument, PlayerSlot } from '../../src/store/game';
+import { playerUids } from '../../src/game/profiles';
+import { MIN_PLAYERS, PLAYER_SLOTS, gameWord, seatedSlots } from '../../src/game/rules';
+import { useProfiles } from '../../src/hooks/useProfiles';
 import { cn } from '../../src/utils/cn';
 
 interface ScoreboardProps {
@@ -8,13 +12,12 @@ interface ScoreboardProps {
   role?: PlayerSlot;
 }
 
-const renderLetters = (letters?: string) => {
-  const sequence = ['S', 'K', '8'];
-  return sequence.map((letter, index) => {
+const renderLetters = (word: string, letters?: string) => {
+  return word.split('').map((letter, index) => {
     const isEarned = letters ? letters.length > index : false;
     return (
       <span
-        key={letter}
+        key={`${letter}-${index}`}
         className={cn(
           'flex h-10 w-10 items-center justify-center rounded-full border text-lg font-bold transition',
           isEarned
@@ -28,12 +31,26 @@ const renderLetters = (letters?: string) => {
   });
 };
 
+const seatLabel = (game: GameDocument, slot: PlayerSlot) => {
+  if (game.players[slot]?.eliminated) return 'Out';
+  if (game.turn === slot) return 'Setter';
+  if (game.current.by === slot) return 'Responding';
+  if (game.current.queue?.includes(slot)) return 'Up next';
+  return 'Responder';
+};
+
 export const Scoreboard = ({ game, role }: ScoreboardProps) => {
+  const word = gameWord(game);
+  const seated = seatedSlots(game);
+  const profiles = useProfiles(playerUids(game));
+  // Keep an empty seat on the board until there is someone to play against.
+  const slots = seated.length < MIN_PLAYERS ? [...seated, PLAYER_SLOTS[seated.length]] : seated;
   return (
-    <section className="grid grid-cols-1 gap-4 md:grid-cols-2">
-      {(['A', 'B'] as PlayerSlot[]).map((slot) => {
+    <section className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+      {slots.map((slot) => {
         const player = game.players[slot];
-        const isActive = game.turn === slot;
+        const profile = player ? profiles[player.uid] : undefined;
+        const isActive = game.current.by === slot;
         const isYou = role === slot;
         return (
           <article
@@ -41,17 +58,36 @@ export const Scoreboard = ({ game, role }: ScoreboardProps) => {
             className={cn(
               'flex flex-col gap-4 rounded-3xl border border-white/10 bg-black/40 p-6 shadow-lg backdrop-blur transition',
               isActive && 'ring-2 ring-hubba-green/60',
-              isYou && 'border-hubba-green/60'
+              isYou && 'border-hubba-green/60',
+              player?.eliminated && 'opacity-50'
             )}
           >
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-xs uppercase tracking-[0.3em] text-white/60">{slot === 'A' ? 'Setter' : 'Responder'}</p>
-                <h3 className="text-2xl font-bold text-white">{player?.name ?? 'Waiting…'}</h3>
+                <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+                  {seatLabel(game, slot)}
+                </p>
+                <h3 className="text-2xl font-bold text-white">
+                  {profile ? (
+                    <Link
+                      href={`/u/${profile.handle}`}
+                      className="transition hover:text-hubba-green"
+                      title={`@${profile.handle}`}
+                    >
+                      {player?.name}
+                    </Link>
+                  ) : (
+                    (player?.name ?? 'Waiting…')
+                  )}
+                </h3>
               </div>
-              {isYou ? <span className="rounded-full bg-hubba-green/20 px-3 py-1 text-xs text-hubba-green">You</span> : null}
+              {isYou ? (
+                <span className="rounded-full bg-hubba-green/20 px-3 py-1 text-xs text-hubba-green">
+                  You
+                </span>
+              ) : null}
             </div>
-            <div className="flex gap-3">{renderLetters(player?.letters)}</div>
+            <div className="flex flex-wrap gap-3">{renderLetters(word, player?.letters)}</div>
           </article>
         );
       })}
@@ -0,0 +1,29 @@
+'use client';
+
+import type { GameDocument } from '../../src/store/game';
+import { seatedSlots, seriesScore, seriesWinner } from '../../src/game/rules';
+
+interface SeriesScoreProps {
+  game: GameDocument;
+}
+
+export const SeriesScore = ({ game }: SeriesScoreProps) => {
+  const bestOf = game.series?.bestOf ?? 1;
+  if (bestOf === 1) {
+    return null;
+  }
+
+  const score = seriesScore(game);
+  const clinched = seriesWinner(game);
+  return (
+    <p className="mt-1 text-sm text-white/60">
+      Best of {bestOf} • Game {game.series?.game ?? 1} •{' '}
+      {seatedSlots(game)
+        .map((slot) => `${game.players[slot]?.name ?? slot} ${score[slot] ?? 0}`)
+        .join(' – ')}
+      {clinched ? (
+        <span className="text-hubba-green"> • {game.players[clinched]?.name} takes the series</span>
+      ) : null}
+    </p>
+  );
+};
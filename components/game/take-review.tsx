@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '../ui/button';
+import type { RecordedTake } from '../../src/hooks/useRecording';
+import { isCompressionSupported, type ClipRange } from '../../src/lib/compressClip';
+import { CLIP_LENGTH_TOLERANCE_MS } from '../../src/game/rules';
+
+interface TakeReviewProps {
+  take: RecordedTake;
+  maxDurationMs: number;
+  canRetake: boolean;
+  busy: boolean;
+  onSubmit: (range?: ClipRange) => void;
+  onRetake: () => void;
+}
+
+const MIN_TAKE_S = 1;
+// Trims smaller than this are treated as the full take, so it isn't re-encoded for nothing.
+const TRIM_EPSILON_S = 0.05;
+const STEP_S = 0.1;
+
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+
+/** Plays a stopped take back on a loop and lets the shooter trim it before it is uploaded. */
+export const TakeReview = ({
+  take,
+  maxDurationMs,
+  canRetake,
+  busy,
+  onSubmit,
+  onRetake,
+}: TakeReviewProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [canTrim, setCanTrim] = useState(false);
+  const [duration, setDuration] = useState(take.durationMs / 1000);
+  const [range, setRange] = useState<ClipRange>({ startS: 0, endS: take.durationMs / 1000 });
+
+  useEffect(() => {
+    setCanTrim(isCompressionSupported());
+  }, []);
+
+  const length = range.endS - range.startS;
+  const tooLong = length * 1000 > maxDurationMs + CLIP_LENGTH_TOLERANCE_MS;
+  const trimmed = range.startS > TRIM_EPSILON_S || range.endS < duration - TRIM_EPSILON_S;
+
+  // MediaRecorder WebM reports an infinite duration, so the recorder's timing stands in for it.
+  const onLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && Number.isFinite(video.duration)) {
+      setDuration(video.duration);
+      setRange({ startS: 0, endS: video.duration });
+    }
+  };
+
+  const onTimeUpdate = () => {
+    const video = videoRef.current;
+    if (video && (video.currentTime >= range.endS || video.currentTime < range.startS)) {
+      video.currentTime = range.startS;
+    }
+  };
+
+  const updateRange = (update: Partial<ClipRange>) => {
+    const next = { ...range, ...update };
+    if (next.endS - next.startS < MIN_TAKE_S) {
+      return;
+    }
+    setRange(next);
+    if (videoRef.current) {
+      // Preview from the edge that moved.
+      videoRef.current.currentTime =
+        update.endS !== undefined ? Math.max(next.startS, next.endS - MIN_TAKE_S) : next.startS;
+    }
+  };
+
+  return (
+    <section className="flex w-full flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+      <h3 className="text-xs uppercase tracking-[0.3em] text-white/60">Review your take</h3>
+      <video
+        ref={videoRef}
+        src={take.url}
+        autoPlay
+        muted
+        playsInline
+        loop
+        onLoadedMetadata={onLoadedMetadata}
+        onTimeUpdate={onTimeUpdate}
+        className="aspect-video w-full rounded-xl border border-white/10 bg-black object-contain"
+      />
+      {canTrim ? (
+        <div className="grid gap-2 text-xs text-white/60 sm:grid-cols-2">
+          <label className="flex flex-col gap-1">
+            Start {seconds(range.startS)}
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={STEP_S}
+              value={range.startS}
+              disabled={busy}
+              onChange={(event) => updateRange({ startS: Number(event.target.value) })}
+              className="accent-hubba-green"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            End {seconds(range.endS)}
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={STEP_S}
+              value={range.endS}
+              disabled={busy}
+              onChange={(event) => updateRange({ endS: Number(event.target.value) })}
+              className="accent-hubba-green"
+            />
+          </label>
+        </div>
+      ) : (
+        <p className="text-xs text-white/40">Trimming isn’t available in this browser.</p>
+      )}
+      <p className={tooLong ? 'text-xs text-red-400' : 'text-xs text-white/60'}>
+        {seconds(length)} of {seconds(maxDurationMs / 1000)} allowed
+        {tooLong ? ', trim it down to submit' : ''}
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <Button
+          type="button"
+          onClick={() => onSubmit(canTrim && trimmed ? range : undefined)}
+          disabled={busy || tooLong}
+          className="bg-hubba-green text-black hover:bg-hubba-green/90"
+        >
+          {trimmed && canTrim ? 'Trim & Submit' : 'Submit'}
+        </Button>
+        {canRetake ? (
+          <Button type="button" variant="outline" onClick={onRetake} disabled={busy}>
+            Retake
+          </Button>
+        ) : (
+          <p className="self-center text-xs text-white/60">
+            House rules: sets are one take, so this one counts.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
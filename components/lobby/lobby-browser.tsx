@@ -0,0 +1,108 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Button } from '../ui/button';
+import { useGameStore } from '../../src/store/game';
+import { useLobbies } from '../../src/hooks/useLobbies';
+import { isJoinableLobby } from '../../src/game/lobbies';
+import { DEFAULT_WORD, formatWord } from '../../src/game/rules';
+import type { LobbyDocument } from '../../src/game/types';
+
+interface LobbyBrowserProps {
+  /** The name typed into the room forms; joining needs one. */
+  name: string;
+}
+
+const describeLobby = (lobby: LobbyDocument) =>
+  [formatWord(lobby.word ?? DEFAULT_WORD), lobby.bestOf ? `Best of ${lobby.bestOf}` : null]
+    .filter(Boolean)
+    .join(' • ');
+
+/** Open public games to join, quick-match into the longest-waiting one, and live games to watch. */
+export const LobbyBrowser = ({ name }: LobbyBrowserProps) => {
+  const router = useRouter();
+  const { actions, loading, user } = useGameStore((state) => ({
+    actions: state.actions,
+    loading: state.loading,
+    user: state.user,
+  }));
+  const { open, live } = useLobbies(!!user);
+  const now = new Date().toISOString();
+  const joinable = user ? open.filter((lobby) => isJoinableLobby(lobby, user.uid, now)) : [];
+
+  const handleJoin = async (code: string) => {
+    await actions.joinGame(code, name.trim());
+    router.push(`/game/${code}`);
+  };
+
+  const handleQuickMatch = async () => {
+    const { code } = await actions.quickMatch(name.trim());
+    router.push(`/game/${code}`);
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Public Lobbies</h2>
+          <p className="mt-1 text-sm text-white/60">
+            {name.trim() ? 'Jump into an open game.' : 'Enter your name above to join one.'}
+          </p>
+        </div>
+        <Button
+          disabled={loading || !name.trim() || !joinable.length}
+          onClick={() => handleQuickMatch().catch((err) => console.error(err))}
+          className="sm:w-auto"
+        >
+          Quick Match
+        </Button>
+      </div>
+      {joinable.length ? (
+        <ul className="flex flex-col gap-2">
+          {joinable.map((lobby) => (
+            <li
+              key={lobby.gameId}
+              className="flex items-center justify-between rounded-2xl border border-white/10 px-4 py-3"
+            >
+              <span className="text-sm text-white">
+                {lobby.hostName}
+                <span className="ml-2 text-xs text-white/60">{describeLobby(lobby)}</span>
+              </span>
+              <Button
+                variant="outline"
+                disabled={loading || !name.trim()}
+                onClick={() => handleJoin(lobby.code).catch((err) => console.error(err))}
+                className="px-4 py-2 text-sm"
+              >
+                Join
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-white/60">No open games right now. Create one and list it.</p>
+      )}
+      {live.length ? (
+        <>
+          <h3 className="text-sm font-semibold uppercase tracking-[0.2em] text-white/60">
+            Watch live
+          </h3>
+          <ul className="flex flex-col gap-2">
+            {live.map((lobby) => (
+              <li key={lobby.gameId}>
+                <Link
+                  href={`/game/${lobby.code}`}
+                  className="flex items-center justify-between rounded-2xl border border-white/10 px-4 py-3 text-sm text-white transition hover:border-hubba-green/60"
+                >
+                  {lobby.hostName}&rsquo;s game
+                  <span className="text-xs text-white/60">{describeLobby(lobby)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+    </section>
+  );
+};
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useGameStore } from '../../src/store/game';
+import { MAX_BIO_LENGTH, MAX_HANDLE_LENGTH, normalizeHandle } from '../../src/game/profiles';
+import type { UserProfile } from '../../src/game/types';
+
+interface ProfileEditorProps {
+  profile: UserProfile;
+  onSaved: (profile: UserProfile) => void;
+}
+
+/** Lets a player change their own handle, bio and avatar link. */
+export const ProfileEditor = ({ profile, onSaved }: ProfileEditorProps) => {
+  const { actions, loading, error } = useGameStore((state) => ({
+    actions: state.actions,
+    loading: state.loading,
+    error: state.error,
+  }));
+  const [handle, setHandle] = useState(profile.handle);
+  const [bio, setBio] = useState(profile.bio ?? '');
+  const [avatarUrl, setAvatarUrl] = useState(profile.avatarUrl ?? '');
+  const [handleError, setHandleError] = useState<string | undefined>();
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    const nextHandle = normalizeHandle(handle);
+    if (!nextHandle) {
+      setHandleError('Use 3–20 letters, numbers or underscores.');
+      return;
+    }
+    setHandleError(undefined);
+    const saved = await actions.updateProfile({ handle: nextHandle, bio, avatarUrl });
+    onSaved(saved);
+  };
+
+  return (
+    <form
+      onSubmit={(event) => handleSave(event).catch((err) => console.error(err))}
+      className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-black/40 p-6 shadow-xl backdrop-blur"
+    >
+      <h2 className="text-xl font-semibold text-white">Edit Profile</h2>
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Handle
+        <Input
+          value={handle}
+          maxLength={MAX_HANDLE_LENGTH + 1}
+          onChange={(event) => setHandle(event.target.value)}
+        />
+      </label>
+      {handleError ? <p className="text-xs text-red-400">{handleError}</p> : null}
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Bio
+        <Input
+          value={bio}
+          maxLength={MAX_BIO_LENGTH}
+          onChange={(event) => setBio(event.target.value)}
+        />
+      </label>
+      <label className="flex flex-col gap-2 text-sm text-white/70">
+        Avatar link
+        <Input
+          type="url"
+          value={avatarUrl}
+          placeholder="https://"
+          onChange={(event) => setAvatarUrl(event.target.value)}
+        />
+      </label>
+      {error ? <p className="text-xs text-red-400">{error}</p> : null}
+      <Button type="submit" disabled={loading} className="self-start">
+        {loading ? 'Saving…' : 'Save'}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { findDuplicate, type FingerprintedClip } from '../../../src/game/duplicates';
+import type { ClipDocument, ClipMatch } from '../../../src/game/types';
+import { clips } from '../game/documents';
+
+// Firestore caps `array-contains-any` at 30 values per query.
+const KEYS_PER_QUERY = 30;
+const CANDIDATES_PER_QUERY = 20;
+
+/** Hex MD5 of a local file, matching the digest Storage keeps for the object. */
+export const md5Hex = (filePath: string) =>
+  new Promise<string>((resolve, reject) => {
+    const hash = createHash('md5');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+
+/** Storage reports `md5Hash` base64-encoded; /clips stores it as hex. */
+export const storageMd5Hex = (md5Hash: string) => Buffer.from(md5Hash, 'base64').toString('hex');
+
+const byContentHash = async (contentHash: string) => {
+  const snapshot = await clips()
+    .where('contentHash', '==', contentHash)
+    .limit(CANDIDATES_PER_QUERY)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as ClipDocument);
+};
+
+const byFingerprintKeys = async (keys: string[]) => {
+  const batches: string[][] = [];
+  for (let start = 0; start < keys.length; start += KEYS_PER_QUERY) {
+    batches.push(keys.slice(start, start + KEYS_PER_QUERY));
+  }
+  const snapshots = await Promise.all(
+    batches.map((batch) =>
+      clips()
+        .where('fingerprintKeys', 'array-contains-any', batch)
+        .limit(CANDIDATES_PER_QUERY)
+        .get()
+    )
+  );
+  return snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.data() as ClipDocument));
+};
+
+/** Looks up every clip, from any game or player, that shares the content hash or a fingerprint key. */
+export const findEarlierDuplicate = async (
+  clip: FingerprintedClip & { fingerprintKeys?: string[] }
+): Promise<ClipMatch | undefined> => {
+  const [exact, lookalikes] = await Promise.all([
+    clip.contentHash ? byContentHash(clip.contentHash) : [],
+    clip.fingerprintKeys?.length ? byFingerprintKeys(clip.fingerprintKeys) : [],
+  ]);
+  return findDuplicate(clip, [...exact, ...lookalikes]);
+};
+
+/**
+ * Byte-identical copies of an earlier clip, found from the digest Storage computed on upload, so a
+ * submission can be turned away before the clip pipeline has even run.
+ */
+export const findExactDuplicate = async (
+  clip: Pick<ClipDocument, 'gameId' | 'storagePath'>,
+  md5Hash: string | undefined
+) => {
+  if (!md5Hash) {
+    return undefined;
+  }
+  const contentHash = storageMd5Hex(md5Hash);
+  return findDuplicate({ ...clip, contentHash }, await byContentHash(contentHash));
+};
@@ -0,0 +1,212 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import ffmpegPath from 'ffmpeg-static';
+import { FRAME_HEIGHT, FRAME_WIDTH } from '../../../src/game/duplicates';
+
+const THUMB_WIDTH = 480;
+const REEL_WIDTH = 1280;
+const REEL_HEIGHT = 720;
+const REEL_FPS = 30;
+const REEL_SAMPLE_RATE = 48000;
+// drawtext finds a system font through fontconfig; deployments without one can point at a file.
+const REEL_FONT = process.env.REEL_FONT_FILE
+  ? `fontfile=${process.env.REEL_FONT_FILE}`
+  : 'font=Sans';
+
+// Every reel segment is encoded identically so they can be joined without another re-encode.
+const REEL_OUTPUT = [
+  '-c:v',
+  'libx264',
+  '-preset',
+  'veryfast',
+  '-crf',
+  '23',
+  '-pix_fmt',
+  'yuv420p',
+  '-r',
+  String(REEL_FPS),
+  '-c:a',
+  'aac',
+  '-b:a',
+  '128k',
+  '-ar',
+  String(REEL_SAMPLE_RATE),
+  '-ac',
+  '2',
+];
+const SILENCE = ['-f', 'lavfi', '-i', `anullsrc=r=${REEL_SAMPLE_RATE}:cl=stereo`];
+
+const run = (args: string[]) =>
+  new Promise<string>((resolve, reject) => {
+    if (!ffmpegPath) {
+      reject(new Error('ffmpeg binary is not available on this platform'));
+      return;
+    }
+    execFile(ffmpegPath, args, { maxBuffer: 16 * 1024 * 1024 }, (error, _stdout, stderr) => {
+      if (error) {
+        reject(new Error(`ffmpeg ${args.join(' ')} failed: ${stderr || error.message}`));
+        return;
+      }
+      resolve(stderr);
+    });
+  });
+
+const toMs = (hours: string, minutes: string, seconds: string) =>
+  Math.round((Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000);
+
+/**
+ * Duration of the clip's first video stream. MediaRecorder WebM files carry no duration in their
+ * header, so the stream is decoded to the null muxer and the last reported timestamp is used.
+ */
+export const probeDurationMs = async (inputPath: string) => {
+  const log = await run(['-hide_banner', '-i', inputPath, '-map', '0:v:0', '-f', 'null', '-']);
+  const times = Array.from(log.matchAll(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g));
+  const last = times[times.length - 1];
+  if (!last) {
+    throw new Error('ffmpeg did not report a duration');
+  }
+  return toMs(last[1], last[2], last[3]);
+};
+
+/** Writes a JPEG poster frame from a moment into the clip, skipping a possibly black first frame. */
+export const extractThumbnail = async (
+  inputPath: string,
+  outputPath: string,
+  durationMs: number
+) => {
+  const seekSeconds = Math.min(1, durationMs / 2000).toFixed(3);
+  await run([
+    '-hide_banner',
+    '-y',
+    '-ss',
+    seekSeconds,
+    '-i',
+    inputPath,
+    '-frames:v',
+    '1',
+    '-vf',
+    `scale=${THUMB_WIDTH}:-2`,
+    '-q:v',
+    '3',
+    outputPath,
+  ]);
+};
+
+/**
+ * Samples `count` frames spread evenly across the clip, each scaled down to the fingerprint's
+ * grayscale size, and returns their raw pixels in order.
+ */
+export const extractFrameSamples = async (
+  inputPath: string,
+  outputPath: string,
+  durationMs: number,
+  count: number
+) => {
+  const rate = count / Math.max(durationMs / 1000, 0.1);
+  await run([
+    '-hide_banner',
+    '-y',
+    '-i',
+    inputPath,
+    '-map',
+    '0:v:0',
+    '-vf',
+    `fps=${rate.toFixed(4)},scale=${FRAME_WIDTH}:${FRAME_HEIGHT}:flags=area,format=gray`,
+    '-frames:v',
+    String(count),
+    '-f',
+    'rawvideo',
+    outputPath,
+  ]);
+  const pixels = await fs.readFile(outputPath);
+  const frameBytes = FRAME_WIDTH * FRAME_HEIGHT;
+  const frames: Uint8Array[] = [];
+  for (let offset = 0; offset + frameBytes <= pixels.length; offset += frameBytes) {
+    frames.push(pixels.subarray(offset, offset + frameBytes));
+  }
+  return frames;
+};
+
+const hasAudio = async (inputPath: string) => {
+  try {
+    await run(['-hide_banner', '-i', inputPath, '-map', '0:a:0', '-t', '0.1', '-f', 'null', '-']);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Renders a silent title card with one centred line of text per entry. Lines go through
+ * `textfile` so player names never need escaping for the filter graph.
+ */
+export const renderTitleCard = async (outputPath: string, lines: string[], seconds: number) => {
+  const workDir = dirname(outputPath);
+  const lineHeight = 72;
+  const top = (REEL_HEIGHT - lines.length * lineHeight) / 2;
+  const filters = await Promise.all(
+    lines.map(async (line, index) => {
+      const textPath = join(workDir, `card-${Date.now()}-${index}.txt`);
+      await fs.writeFile(textPath, line);
+      const size = index === 0 ? 56 : 40;
+      return `drawtext=${REEL_FONT}:textfile=${textPath}:fontcolor=white:fontsize=${size}:x=(w-text_w)/2:y=${top + index * lineHeight}`;
+    })
+  );
+  await run([
+    '-hide_banner',
+    '-y',
+    '-f',
+    'lavfi',
+    '-i',
+    `color=c=black:s=${REEL_WIDTH}x${REEL_HEIGHT}:r=${REEL_FPS}`,
+    ...SILENCE,
+    '-t',
+    String(seconds),
+    '-vf',
+    filters.join(','),
+    ...REEL_OUTPUT,
+    outputPath,
+  ]);
+};
+
+/** Re-encodes a clip to the reel format, letterboxed, with silence if it was recorded without audio. */
+export const normalizeClip = async (inputPath: string, outputPath: string) => {
+  const audio = await hasAudio(inputPath);
+  await run([
+    '-hide_banner',
+    '-y',
+    '-i',
+    inputPath,
+    ...(audio ? [] : [...SILENCE, '-shortest']),
+    '-map',
+    '0:v:0',
+    '-map',
+    audio ? '0:a:0' : '1:a:0',
+    '-vf',
+    `scale=${REEL_WIDTH}:${REEL_HEIGHT}:force_original_aspect_ratio=decrease,pad=${REEL_WIDTH}:${REEL_HEIGHT}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${REEL_FPS}`,
+    ...REEL_OUTPUT,
+    outputPath,
+  ]);
+};
+
+/** Joins segments produced by `renderTitleCard` and `normalizeClip` into one MP4. */
+export const concatSegments = async (segmentPaths: string[], outputPath: string) => {
+  const listPath = join(dirname(outputPath), 'segments.txt');
+  await fs.writeFile(listPath, segmentPaths.map((path) => `file '${path}'`).join('\n'));
+  await run([
+    '-hide_banner',
+    '-y',
+    '-f',
+    'concat',
+    '-safe',
+    '0',
+    '-i',
+    listPath,
+    '-c',
+    'copy',
+    '-movflags',
+    '+faststart',
+    outputPath,
+  ]);
+};
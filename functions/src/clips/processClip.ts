@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { onObjectFinalized } from 'firebase-functions/v2/storage';
+import { storage } from '../firebase';
+import { clips } from '../game/documents';
+import { findEarlierDuplicate, md5Hex } from './duplicates';
+import { extractFrameSamples, extractThumbnail, probeDurationMs } from './ffmpeg';
+import { FINGERPRINT_FRAMES, fingerprintKeys, fingerprintOf } from '../../../src/game/duplicates';
+import { parseClipPath, thumbnailPathFor } from '../../../src/game/paths';
+import type { ClipDocument } from '../../../src/game/types';
+
+/** Clip ids are derived from the storage path so a retried trigger rewrites the same document. */
+export const clipIdForPath = (storagePath: string) => storagePath.replace(/\//g, '__');
+
+export const downloadUrl = (bucket: string, path: string, token: string) =>
+  `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+
+/**
+ * Probes every clip uploaded under `games/{gameId}/{uid}/` with ffmpeg, stores a poster thumbnail
+ * under `thumbnails/` and records both in `/clips`. The thumbnail gets no download token: clients
+ * resolve `thumbPath` through storage.rules like the clip itself. History entries link to the
+ * document through the shared `storagePath`. Each clip is also fingerprinted and flagged when it
+ * repeats an earlier upload by anyone.
+ */
+export const processClip = onObjectFinalized(
+  { memory: '1GiB', timeoutSeconds: 300 },
+  async (event) => {
+    const { bucket, name: storagePath, contentType, size } = event.data;
+    const clipPath = storagePath ? parseClipPath(storagePath) : undefined;
+    if (!storagePath || !clipPath || !contentType?.startsWith('video/')) {
+      return;
+    }
+
+    const workDir = await fs.mkdtemp(join(tmpdir(), 'clip-'));
+    const inputPath = join(workDir, clipPath.fileName);
+    const posterPath = join(workDir, 'poster.jpg');
+    const samplesPath = join(workDir, 'samples.gray');
+    try {
+      const files = storage.bucket(bucket);
+      await files.file(storagePath).download({ destination: inputPath });
+
+      const durationMs = await probeDurationMs(inputPath);
+      await extractThumbnail(inputPath, posterPath, durationMs);
+      const contentHash = await md5Hex(inputPath);
+      const fingerprint = fingerprintOf(
+        await extractFrameSamples(inputPath, samplesPath, durationMs, FINGERPRINT_FRAMES)
+      );
+
+      const thumbPath = thumbnailPathFor(storagePath);
+      await files.upload(posterPath, {
+        destination: thumbPath,
+        metadata: { contentType: 'image/jpeg', cacheControl: 'private, max-age=31536000' },
+      });
+
+      const clip: ClipDocument = {
+        gameId: clipPath.gameId,
+        storagePath,
+        ownerUid: clipPath.uid,
+        contentType,
+        sizeBytes: Number(size),
+        durationMs,
+        thumbPath,
+        contentHash,
+        fingerprint,
+        fingerprintKeys: fingerprintKeys(fingerprint),
+      };
+      const duplicateOf = await findEarlierDuplicate(clip);
+      if (duplicateOf) {
+        logger.warn('Clip repeats an earlier upload', { storagePath, duplicateOf });
+        clip.duplicateOf = duplicateOf;
+      }
+      await clips()
+        .doc(clipIdForPath(storagePath))
+        .set({ ...clip, createdAt: FieldValue.serverTimestamp() });
+    } catch (error) {
+      logger.error('Failed to process clip', { storagePath, error });
+      throw error;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+);
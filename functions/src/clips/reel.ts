@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { storage } from '../firebase';
+import { concatSegments, normalizeClip, renderTitleCard } from './ffmpeg';
+import { downloadUrl } from './processClip';
+import { reelPath } from '../../../src/game/paths';
+import { reelSegments } from '../../../src/game/reel';
+import type { GameDocument, ReelState } from '../../../src/game/types';
+
+const CARD_SECONDS = 2.5;
+
+/**
+ * Cuts the game's clips and title cards into one MP4 under `reels/` in the default bucket. Clips
+ * are rendered one at a time and deleted as soon as they are normalised to keep /tmp small.
+ */
+export const renderReel = async (gameId: string, game: GameDocument): Promise<ReelState> => {
+  const bucket = storage.bucket();
+  const workDir = await fs.mkdtemp(join(tmpdir(), 'reel-'));
+  try {
+    const parts: string[] = [];
+    for (const [index, segment] of reelSegments(game).entries()) {
+      const partPath = join(workDir, `part-${index}.mp4`);
+      if (segment.type === 'card') {
+        await renderTitleCard(partPath, segment.lines, CARD_SECONDS);
+      } else {
+        const sourcePath = join(workDir, `source-${index}${extname(segment.storagePath)}`);
+        await bucket.file(segment.storagePath).download({ destination: sourcePath });
+        await normalizeClip(sourcePath, partPath);
+        await fs.rm(sourcePath, { force: true });
+      }
+      parts.push(partPath);
+    }
+
+    const outputPath = join(workDir, 'reel.mp4');
+    await concatSegments(parts, outputPath);
+
+    const storagePath = reelPath(gameId);
+    const token = randomUUID();
+    await bucket.upload(outputPath, {
+      destination: storagePath,
+      metadata: {
+        contentType: 'video/mp4',
+        contentDisposition: `inline; filename="skatehubba-${game.code}.mp4"`,
+        metadata: { firebaseStorageDownloadTokens: token },
+      },
+    });
+    return { storagePath, url: downloadUrl(bucket.name, storagePath, token) };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,666 @@
+import { FieldValue, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db, storage } from '../firebase';
+import { requireBoolean, requireString, requireUid, toHttpsError } from '../validation';
+import { findExactDuplicate } from '../clips/duplicates';
+import { renderReel } from '../clips/reel';
+import {
+  followLobby,
+  games,
+  lobbies,
+  recordingSessions,
+  reserveCode,
+  settleGame,
+  toUpdate,
+} from './documents';
+import {
+  DEFAULT_CLIP_LENGTH,
+  DEFAULT_HOUSE_RULES,
+  DEFAULT_SHOT_CLOCK,
+  DEFAULT_WORD,
+  SERIES_LENGTHS,
+  addPlayer,
+  applyMove,
+  checkMove,
+  isRuleViolation,
+  normalizeWord,
+  rematchGame,
+  slotForUid,
+  type Move,
+} from '../../../src/game/rules';
+import { parseClipPath } from '../../../src/game/paths';
+import {
+  checkAttestation,
+  checkNewSession,
+  checkOfflineSession,
+  checkSession,
+  isSessionId,
+  readAttestation,
+  recordingSession,
+  renewRecordingSession,
+  type RecordingSession,
+  type RecordingTicket,
+} from '../../../src/game/attestation';
+import { duplicateViolation } from '../../../src/game/duplicates';
+import { playerUids } from '../../../src/game/profiles';
+import { REEL_RENDER_SECONDS, isRenderingReel } from '../../../src/game/reel';
+import {
+  isJoinableLobby,
+  lobbyUpdate,
+  openLobby,
+  staleLobbyBefore,
+} from '../../../src/game/lobbies';
+import type {
+  ClipLengthSettings,
+  GameDocument,
+  HouseRules,
+  LobbyDocument,
+  LobbySettings,
+  PlayerSlot,
+  ShotClockSettings,
+  Verdict,
+} from '../../../src/game/types';
+
+const MAX_NAME_LENGTH = 32;
+
+const requireName = (value: unknown) => {
+  const name = requireString(value, 'name');
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new HttpsError('invalid-argument', `Name must be ${MAX_NAME_LENGTH} characters or less`);
+  }
+  return name;
+};
+
+// Clips must sit in the caller's own folder under the game, so a game cannot reference another
+// game's footage and a player cannot submit someone else's take.
+const requireClipPath = (value: unknown, gameId: string, uid: string) => {
+  const storagePath = requireString(value, 'storagePath');
+  const clip = parseClipPath(storagePath);
+  if (!clip) {
+    throw new HttpsError('invalid-argument', 'storagePath is not a clip path');
+  }
+  if (clip.gameId !== gameId || clip.uid !== uid) {
+    throw new HttpsError('invalid-argument', 'Clip does not belong to this game');
+  }
+  return storagePath;
+};
+
+// Omitted words fall back to S.K.8; anything else must survive `normalizeWord`.
+const requireWord = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_WORD;
+  }
+  const word = typeof value === 'string' ? normalizeWord(value) : undefined;
+  if (!word) {
+    throw new HttpsError('invalid-argument', 'Word must be 2-10 letters or digits');
+  }
+  return word;
+};
+
+const MIN_CLOCK_SECONDS = 60;
+const MAX_CLOCK_SECONDS = 7 * 24 * 60 * 60;
+const VERDICTS: Verdict[] = ['approve', 'decline'];
+
+const clockSeconds = (value: unknown, fallback: number, field: string) => {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < MIN_CLOCK_SECONDS ||
+    value > MAX_CLOCK_SECONDS
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `${field} must be between ${MIN_CLOCK_SECONDS} and ${MAX_CLOCK_SECONDS} seconds`
+    );
+  }
+  return value;
+};
+
+// Every setting is optional; omitted ones take the defaults from the shared rules.
+const requireShotClock = (value: unknown): ShotClockSettings => {
+  const input = (value ?? {}) as Partial<Record<keyof ShotClockSettings, unknown>>;
+  const defaultVerdict = input.defaultVerdict ?? DEFAULT_SHOT_CLOCK.defaultVerdict;
+  if (!VERDICTS.includes(defaultVerdict as Verdict)) {
+    throw new HttpsError('invalid-argument', 'defaultVerdict must be approve or decline');
+  }
+  return {
+    recordSeconds: clockSeconds(
+      input.recordSeconds,
+      DEFAULT_SHOT_CLOCK.recordSeconds,
+      'recordSeconds'
+    ),
+    judgeSeconds: clockSeconds(input.judgeSeconds, DEFAULT_SHOT_CLOCK.judgeSeconds, 'judgeSeconds'),
+    defaultVerdict: defaultVerdict as Verdict,
+  };
+};
+
+const MIN_CLIP_SECONDS = 3;
+const MAX_CLIP_SECONDS = 120;
+
+const clipSeconds = (value: unknown, fallback: number, field: string) => {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < MIN_CLIP_SECONDS ||
+    value > MAX_CLIP_SECONDS
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `${field} must be between ${MIN_CLIP_SECONDS} and ${MAX_CLIP_SECONDS} seconds`
+    );
+  }
+  return value;
+};
+
+const requireClipLength = (value: unknown): ClipLengthSettings => {
+  const input = (value ?? {}) as Partial<Record<keyof ClipLengthSettings, unknown>>;
+  return {
+    setSeconds: clipSeconds(input.setSeconds, DEFAULT_CLIP_LENGTH.setSeconds, 'setSeconds'),
+    responseSeconds: clipSeconds(
+      input.responseSeconds,
+      DEFAULT_CLIP_LENGTH.responseSeconds,
+      'responseSeconds'
+    ),
+  };
+};
+
+const requireHouseRules = (value: unknown): HouseRules => {
+  const input = (value ?? {}) as Partial<Record<keyof HouseRules, unknown>>;
+  const setRetakes = input.setRetakes ?? DEFAULT_HOUSE_RULES.setRetakes;
+  if (typeof setRetakes !== 'boolean') {
+    throw new HttpsError('invalid-argument', 'setRetakes must be true or false');
+  }
+  return { setRetakes };
+};
+
+// Games without lobby settings stay private to whoever has the code.
+const optionalLobby = (value: unknown): LobbySettings | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const allowSpectators = (value as Partial<Record<keyof LobbySettings, unknown>>).allowSpectators;
+  if (typeof allowSpectators !== 'boolean') {
+    throw new HttpsError('invalid-argument', 'allowSpectators must be true or false');
+  }
+  return { allowSpectators };
+};
+
+// Older clients don't send a duration; the clip pipeline still records one in /clips.
+const optionalDuration = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new HttpsError('invalid-argument', 'durationMs must be a positive number');
+  }
+  return Math.round(value);
+};
+
+const requireBestOf = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  if (typeof value !== 'number' || !SERIES_LENGTHS.includes(value)) {
+    throw new HttpsError('invalid-argument', `bestOf must be one of ${SERIES_LENGTHS.join(', ')}`);
+  }
+  return value;
+};
+
+/**
+ * Checks a submitted clip against the recording session named in its upload metadata and returns
+ * the session, which the move's transaction then marks as used. Byte-identical copies of an
+ * earlier upload are refused here, before the clip pipeline has fingerprinted them.
+ */
+const attestClip = async (
+  tx: Transaction,
+  gameId: string,
+  game: GameDocument,
+  uid: string,
+  slot: PlayerSlot,
+  storagePath: string,
+  durationMs: number | undefined
+) => {
+  const file = storage.bucket().file(storagePath);
+  const [exists] = await file.exists();
+  if (!exists) {
+    throw new HttpsError('failed-precondition', 'Clip has not been uploaded');
+  }
+  const [{ metadata, timeCreated, md5Hash }] = await file.getMetadata();
+  const attestation = readAttestation(metadata);
+  const sessionRef = attestation ? recordingSessions(gameId).doc(attestation.sessionId) : undefined;
+  const session = sessionRef
+    ? ((await tx.get(sessionRef)).data() as RecordingSession | undefined)
+    : undefined;
+  const rejected = checkAttestation(game, uid, slot, {
+    session,
+    attestation,
+    uploaderUid: typeof metadata?.uploaderUid === 'string' ? metadata.uploaderUid : undefined,
+    uploadedAt: String(timeCreated),
+    durationMs,
+  });
+  if (rejected) {
+    throw toHttpsError(rejected);
+  }
+  const duplicate = duplicateViolation(await findExactDuplicate({ gameId, storagePath }, md5Hash));
+  if (duplicate) {
+    throw toHttpsError(duplicate);
+  }
+  return sessionRef;
+};
+
+/**
+ * Loads the game inside a transaction, applies `move` for the caller through the shared rules and
+ * writes the resulting phase state back. Moves are validated against the stored document only;
+ * submitted clips must also carry a recording session issued for this turn.
+ */
+const runMove = async (gameId: string, uid: string, move: Move) => {
+  const ref = games().doc(gameId);
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Game not found');
+    }
+    const game = snapshot.data() as GameDocument;
+    const slot = slotForUid(game, uid);
+    const ts = new Date().toISOString();
+    const next = applyMove(game, slot, move, ts);
+    if (isRuleViolation(next)) {
+      throw toHttpsError(next);
+    }
+    let sessionRef: DocumentReference | undefined;
+    if (slot && (move.type === 'submitSet' || move.type === 'submitResponse')) {
+      const { storagePath, durationMs } = move;
+      sessionRef = await attestClip(tx, gameId, game, uid, slot, storagePath, durationMs);
+    }
+    const settled = await settleGame(tx, gameId, game, next, ts);
+    const commitLobby = await followLobby(tx, gameId, next, ts);
+    // A take counts once: the session is spent with the move.
+    if (sessionRef) {
+      tx.update(sessionRef, { usedAt: ts });
+    }
+    tx.update(ref, toUpdate(settled.game ?? next));
+    settled.commit();
+    commitLobby();
+    return { phase: next.phase, turn: next.turn, winner: next.winner ?? null };
+  });
+};
+
+export const createGame = onCall(async (request) => {
+  const uid = requireUid(request);
+  const name = requireName(request.data?.name);
+  const word = requireWord(request.data?.word);
+  const shotClock = requireShotClock(request.data?.shotClock);
+  const clipLength = requireClipLength(request.data?.clipLength);
+  const houseRules = requireHouseRules(request.data?.houseRules);
+  const bestOf = requireBestOf(request.data?.bestOf);
+  const lobby = optionalLobby(request.data?.lobby);
+  const code = await reserveCode();
+  const ref = games().doc();
+  const game: GameDocument = {
+    code,
+    word,
+    shotClock,
+    clipLength,
+    houseRules,
+    series: { id: ref.id, bestOf, game: 1, wins: {} },
+    turn: 'A',
+    phase: 'SET_RECORD',
+    players: { A: { uid, name, letters: '' } },
+    order: ['A'],
+    current: { by: 'A' },
+    history: [],
+  };
+  const batch = db.batch();
+  batch.set(ref, {
+    ...game,
+    playerUids: [uid],
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  if (lobby) {
+    batch.set(lobbies().doc(ref.id), openLobby(game, ref.id, lobby, new Date().toISOString()));
+  }
+  await batch.commit();
+  return { gameId: ref.id, code };
+});
+
+/**
+ * Seats the caller in a game that hasn't started, and moves its lobby on if that fills it. With
+ * `openLobbyOnly`, resolves false instead when the lobby stopped taking players, so quick-match
+ * never makes a third wheel of someone who got there first.
+ */
+const takeSeat = (ref: DocumentReference, uid: string, name: string, openLobbyOnly = false) =>
+  db.runTransaction(async (tx) => {
+    const lobbyRef = lobbies().doc(ref.id);
+    const [snapshot, lobbySnapshot] = await tx.getAll(ref, lobbyRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Game not found');
+    }
+    const game = snapshot.data() as GameDocument;
+    // Private games have no lobby, so there is only one to move on when its document exists.
+    const lobby = lobbySnapshot.exists ? (lobbySnapshot.data() as LobbyDocument) : undefined;
+    if (slotForUid(game, uid)) {
+      return true;
+    }
+    if (openLobbyOnly && lobby?.status !== 'open') {
+      return false;
+    }
+    const ts = new Date().toISOString();
+    const next = addPlayer(game, uid, name, ts);
+    if (isRuleViolation(next)) {
+      throw toHttpsError(next);
+    }
+    tx.update(ref, {
+      players: next.players,
+      order: next.order,
+      playerUids: playerUids(next),
+      ...(next.deadline ? { deadline: next.deadline } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    const changes = lobby ? lobbyUpdate(lobby, next, ts) : undefined;
+    if (changes) {
+      tx.update(lobbyRef, changes);
+    }
+    return true;
+  });
+
+export const joinGame = onCall(async (request) => {
+  const uid = requireUid(request);
+  const code = requireString(request.data?.code, 'code').toUpperCase();
+  const name = requireName(request.data?.name);
+
+  const match = await games().where('code', '==', code).limit(1).get();
+  if (match.empty) {
+    throw new HttpsError('not-found', 'Game not found');
+  }
+  const ref = match.docs[0].ref;
+  await takeSeat(ref, uid, name);
+  return { gameId: ref.id, code };
+});
+
+const QUICK_MATCH_CANDIDATES = 10;
+
+/**
+ * Seats the caller in the open lobby that has waited longest, skipping their own and any that
+ * fill up first. Fails with `not-found` when none is left, so the client can offer to host one.
+ */
+export const quickMatch = onCall(async (request) => {
+  const uid = requireUid(request);
+  const name = requireName(request.data?.name);
+  const now = new Date().toISOString();
+  const waiting = await lobbies()
+    .where('status', '==', 'open')
+    .where('openedAt', '>', staleLobbyBefore(now))
+    .orderBy('openedAt')
+    .limit(QUICK_MATCH_CANDIDATES)
+    .get();
+
+  for (const doc of waiting.docs) {
+    const lobby = doc.data() as LobbyDocument;
+    if (!isJoinableLobby(lobby, uid, now)) {
+      continue;
+    }
+    const seated = await takeSeat(games().doc(lobby.gameId), uid, name, true).catch((error) => {
+      // The game started or filled between the query and the transaction.
+      if (error instanceof HttpsError && error.details) {
+        return false;
+      }
+      throw error;
+    });
+    if (seated) {
+      return { gameId: lobby.gameId, code: lobby.code };
+    }
+  }
+  throw new HttpsError('not-found', 'No open lobbies right now, host one instead');
+});
+
+/**
+ * Creates the next game in the series for a finished game's players. Only the first call creates
+ * one; later calls return the rematch already linked from the finished game.
+ */
+export const rematch = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const code = await reserveCode();
+  const ref = games().doc(gameId);
+
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Game not found');
+    }
+    const game = snapshot.data() as GameDocument;
+    if (!slotForUid(game, uid)) {
+      throw toHttpsError({ violation: 'not_a_player', message: 'Only players can call a rematch' });
+    }
+    if (game.rematch) {
+      return game.rematch;
+    }
+    const rematchRef = games().doc();
+    const next = rematchGame(
+      game,
+      { gameId, rematchId: rematchRef.id, code },
+      new Date().toISOString()
+    );
+    if (isRuleViolation(next)) {
+      throw toHttpsError(next);
+    }
+    tx.set(rematchRef, {
+      ...next,
+      playerUids: playerUids(next),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    const linked = { gameId: rematchRef.id, code };
+    tx.update(ref, { rematch: linked, updatedAt: FieldValue.serverTimestamp() });
+    return linked;
+  });
+});
+
+const REEL_OPTIONS = { memory: '2GiB', timeoutSeconds: REEL_RENDER_SECONDS } as const;
+
+/**
+ * Renders the highlight reel of a finished game for any of its players. The first call claims the
+ * render in a transaction; later ones are turned away while it runs and get the linked reel after.
+ */
+export const makeReel = onCall(REEL_OPTIONS, async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const ref = games().doc(gameId);
+  const claim = await db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Game not found');
+    }
+    const game = snapshot.data() as GameDocument;
+    if (!slotForUid(game, uid)) {
+      throw toHttpsError({ violation: 'not_a_player', message: 'Only players can make a reel' });
+    }
+    if (!game.winner) {
+      throw toHttpsError({
+        violation: 'game_in_progress',
+        message: 'Reels are made once the game is over',
+      });
+    }
+    if (game.reel) {
+      return { game, reel: game.reel };
+    }
+    const ts = new Date().toISOString();
+    if (isRenderingReel(game, ts)) {
+      throw toHttpsError({
+        violation: 'reel_rendering',
+        message: 'This reel is already being made',
+      });
+    }
+    tx.update(ref, { reelRenderingAt: ts });
+    return { game };
+  });
+  if (claim.reel) {
+    return claim.reel;
+  }
+  try {
+    const reel = await renderReel(gameId, claim.game);
+    await ref.update({
+      reel,
+      reelRenderingAt: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return reel;
+  } catch (error) {
+    // Lets the next call render instead of waiting out the claim.
+    await ref.update({ reelRenderingAt: FieldValue.delete() });
+    throw error;
+  }
+});
+
+/** Loads the game for a recording session and checks that `uid` is the one holding the camera. */
+const loadShooterTurn = async (tx: Transaction, gameId: string, uid: string) => {
+  const snapshot = await tx.get(games().doc(gameId));
+  if (!snapshot.exists) {
+    throw new HttpsError('not-found', 'Game not found');
+  }
+  const game = snapshot.data() as GameDocument;
+  const slot = slotForUid(game, uid);
+  const rejected = checkMove(
+    game,
+    slot,
+    game.phase === 'RESP_RECORD' ? 'submitResponse' : 'submitSet'
+  );
+  if (rejected) {
+    throw toHttpsError(rejected);
+  }
+  // checkMove has already turned away callers without a seat.
+  return { game, slot: slot as PlayerSlot };
+};
+
+/**
+ * Opens a new session for the shooter's turn, refusing a second one for a one-take set. It runs in
+ * the caller's transaction, so two presses of record can't both find no earlier take.
+ */
+const issueSession = async (
+  tx: Transaction,
+  gameId: string,
+  game: GameDocument,
+  uid: string,
+  slot: PlayerSlot,
+  offline: boolean
+) => {
+  const earlier = await tx.get(
+    recordingSessions(gameId)
+      .where('slot', '==', slot)
+      .where('phase', '==', game.phase)
+      .where('historyLength', '==', game.history.length)
+  );
+  const refused = checkNewSession(
+    game,
+    earlier.docs.map((doc) => doc.data() as RecordingSession)
+  );
+  if (refused) {
+    throw toHttpsError(refused);
+  }
+  const ref = recordingSessions(gameId).doc();
+  const issuedAt = new Date().toISOString();
+  const session = recordingSession(game, uid, slot, issuedAt, offline);
+  tx.set(ref, session);
+  const ticket: RecordingTicket = { sessionId: ref.id, issuedAt, expiresAt: session.expiresAt };
+  return ticket;
+};
+
+/**
+ * Opens a recording session for the shooter of a recording phase. The recorder asks for one as it
+ * starts a take and attaches it to the upload; the submit callables only accept clips that do.
+ */
+export const startRecordingSession = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  return db.runTransaction(async (tx) => {
+    const { game, slot } = await loadShooterTurn(tx, gameId, uid);
+    return issueSession(tx, gameId, game, uid, slot, false);
+  });
+});
+
+/**
+ * Called by the upload queue right before a take goes up. Restarts the upload window of the take's
+ * session, so a clip that waited out a dropped connection still counts, or opens an offline session
+ * for a take the recorder shot without one.
+ */
+export const claimRecordingSession = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  // Takes shot offline have no session to name yet.
+  const sessionId = request.data?.sessionId ?? undefined;
+  if (sessionId !== undefined && !isSessionId(sessionId)) {
+    throw new HttpsError('invalid-argument', 'Invalid sessionId');
+  }
+  return db.runTransaction(async (tx) => {
+    const { game, slot } = await loadShooterTurn(tx, gameId, uid);
+    if (!sessionId) {
+      const refused = checkOfflineSession(game);
+      if (refused) {
+        throw toHttpsError(refused);
+      }
+      return issueSession(tx, gameId, game, uid, slot, true);
+    }
+    const ref = recordingSessions(gameId).doc(sessionId);
+    const session = (await tx.get(ref)).data() as RecordingSession | undefined;
+    if (!session) {
+      throw new HttpsError('not-found', 'Recording session not found');
+    }
+    const rejected = checkSession(game, uid, slot, session);
+    if (rejected) {
+      throw toHttpsError(rejected);
+    }
+    const { expiresAt } = renewRecordingSession(session, new Date().toISOString());
+    tx.update(ref, { expiresAt });
+    const ticket: RecordingTicket = { sessionId, issuedAt: session.issuedAt, expiresAt };
+    return ticket;
+  });
+});
+
+export const submitSetClip = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const storagePath = requireClipPath(request.data?.storagePath, gameId, uid);
+  const durationMs = optionalDuration(request.data?.durationMs);
+  return runMove(gameId, uid, { type: 'submitSet', storagePath, durationMs });
+});
+
+export const judgeSet = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const approve = requireBoolean(request.data?.approve, 'approve');
+  return runMove(gameId, uid, { type: 'judgeSet', approve });
+});
+
+export const submitRespClip = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const storagePath = requireClipPath(request.data?.storagePath, gameId, uid);
+  const durationMs = optionalDuration(request.data?.durationMs);
+  return runMove(gameId, uid, { type: 'submitResponse', storagePath, durationMs });
+});
+
+export const judgeResp = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  const approve = requireBoolean(request.data?.approve, 'approve');
+  return runMove(gameId, uid, { type: 'judgeResponse', approve });
+});
+
+export const selfFailSet = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  return runMove(gameId, uid, { type: 'selfFailSet' });
+});
+
+export const selfFailResp = onCall(async (request) => {
+  const uid = requireUid(request);
+  const gameId = requireString(request.data?.gameId, 'gameId');
+  return runMove(gameId, uid, { type: 'selfFailResponse' });
+});
@@ -0,0 +1,143 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { db } from '../firebase';
+import { requireBoolean, requireString, requireUid, toHttpsError } from '../validation';
+import { challenges, games, handles, reserveCode, users } from './documents';
+import {
+  MAX_TRICK_LENGTH,
+  challengeExpiresAt,
+  challengeGame,
+  checkAnswer,
+  isOpenChallenge,
+} from '../../../src/game/challenges';
+import { normalizeHandle, playerUids } from '../../../src/game/profiles';
+import type { ChallengeDocument } from '../../../src/game/types';
+
+const BATCH_SIZE = 400;
+
+const optionalTrick = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const trick = requireString(value, 'trick');
+  if (trick.length > MAX_TRICK_LENGTH) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Trick must be ${MAX_TRICK_LENGTH} characters or less`
+    );
+  }
+  return trick;
+};
+
+/**
+ * Challenges the skater with `handle`, optionally calling out a trick. Asking again while an
+ * earlier challenge to the same skater is still open returns that one instead of sending another.
+ */
+export const challengeSkater = onCall(async (request) => {
+  const uid = requireUid(request);
+  const handle = normalizeHandle(requireString(request.data?.handle, 'handle'));
+  const trick = optionalTrick(request.data?.trick);
+  if (!handle) {
+    throw new HttpsError('invalid-argument', 'Handle must be 3-20 letters, digits or underscores');
+  }
+  const [reservation, profile] = await Promise.all([
+    handles().doc(handle).get(),
+    users().doc(uid).get(),
+  ]);
+  const opponentUid = reservation.data()?.uid as string | undefined;
+  if (!opponentUid) {
+    throw new HttpsError('not-found', `No skater goes by @${handle}`);
+  }
+  if (opponentUid === uid) {
+    throw new HttpsError('invalid-argument', 'You cannot challenge yourself');
+  }
+  const challengerHandle = profile.data()?.handle as string | undefined;
+  if (!challengerHandle) {
+    throw new HttpsError('failed-precondition', 'Profile has not been created yet');
+  }
+
+  const now = new Date().toISOString();
+  const pending = await challenges()
+    .where('challengerUid', '==', uid)
+    .where('opponentUid', '==', opponentUid)
+    .where('status', '==', 'pending')
+    .get();
+  const open = pending.docs.find((doc) => isOpenChallenge(doc.data() as ChallengeDocument, now));
+  if (open) {
+    return { challengeId: open.id };
+  }
+
+  const challenge: ChallengeDocument = {
+    challengerUid: uid,
+    challengerHandle,
+    opponentUid,
+    opponentHandle: handle,
+    ...(trick ? { trick } : {}),
+    status: 'pending',
+    expiresAt: challengeExpiresAt(now),
+  };
+  const ref = await challenges().add({
+    ...challenge,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return { challengeId: ref.id };
+});
+
+/**
+ * Accepts or declines a challenge for the challenged skater. Accepting starts the game in the same
+ * transaction and links it from the challenge, so the challenger can follow it there.
+ */
+export const answerChallenge = onCall(async (request) => {
+  const uid = requireUid(request);
+  const challengeId = requireString(request.data?.challengeId, 'challengeId');
+  const accept = requireBoolean(request.data?.accept, 'accept');
+  const ref = challenges().doc(challengeId);
+  const code = accept ? await reserveCode() : undefined;
+
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists) {
+      throw new HttpsError('not-found', 'Challenge not found');
+    }
+    const challenge = snapshot.data() as ChallengeDocument;
+    const ts = new Date().toISOString();
+    const rejected = checkAnswer(challenge, uid, ts);
+    if (rejected) {
+      throw toHttpsError(rejected);
+    }
+    if (!code) {
+      tx.update(ref, { status: 'declined', updatedAt: FieldValue.serverTimestamp() });
+      return { status: 'declined' };
+    }
+    const gameRef = games().doc();
+    const linked = { gameId: gameRef.id, code };
+    const game = challengeGame(challenge, linked, ts);
+    tx.set(gameRef, {
+      ...game,
+      playerUids: playerUids(game),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    tx.update(ref, { status: 'accepted', game: linked, updatedAt: FieldValue.serverTimestamp() });
+    return { status: 'accepted', game: linked };
+  });
+});
+
+/**
+ * Deletes challenges past `expiresAt`: unanswered ones have lapsed, and answered ones have done
+ * their job, since an accepted challenge's game lives on without it.
+ */
+export const expireChallenges = onSchedule('every 60 minutes', async () => {
+  const now = new Date().toISOString();
+  const expired = await challenges().where('expiresAt', '<=', now).limit(BATCH_SIZE).get();
+  if (expired.empty) {
+    return;
+  }
+  const batch = db.batch();
+  expired.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  logger.info('Deleted expired challenges', { count: expired.size });
+});
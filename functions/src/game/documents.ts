@@ -0,0 +1,155 @@
+import { randomInt } from 'crypto';
+import { FieldValue, type Transaction } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { db } from '../firebase';
+import { playerUids } from '../../../src/game/profiles';
+import { rateGame, type PlayerRating } from '../../../src/game/ratings';
+import { playerOrder, seatedSlots } from '../../../src/game/rules';
+import { lobbyUpdate } from '../../../src/game/lobbies';
+import type {
+  GameDocument,
+  LobbyDocument,
+  PlayerSlot,
+  RatingChange,
+  RatingHistoryEntry,
+  UserProfile,
+} from '../../../src/game/types';
+
+export const games = () => db.collection('games');
+
+/** Written by the clip pipeline, one per uploaded clip. */
+export const clips = () => db.collection('clips');
+
+/** Skater profiles; readable by any signed-in player, written only by the callables. */
+export const users = () => db.collection('users');
+
+/** Handle reservations, `{ uid }` keyed by handle, so two profiles can never share one. */
+export const handles = () => db.collection('handles');
+
+/** Direct challenges between two skaters; written only by the challenge callables. */
+export const challenges = () => db.collection('challenges');
+
+/** Public listings, keyed by game id, for games their host opened to anyone. */
+export const lobbies = () => db.collection('lobbies');
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+const MAX_CODE_ATTEMPTS = 5;
+
+const generateCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join(
+    ''
+  );
+
+/** A share code no other game is using. */
+export const reserveCode = async () => {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt += 1) {
+    const code = generateCode();
+    const existing = await games().where('code', '==', code).limit(1).get();
+    if (existing.empty) {
+      return code;
+    }
+  }
+  throw new HttpsError('resource-exhausted', 'Could not allocate a game code, try again');
+};
+
+/** Merge tickets keyed by their secret id; firestore.rules gives clients no access. */
+export const mergeTickets = () => db.collection('mergeTickets');
+
+/** Private to the callables; firestore.rules gives clients no access. */
+export const recordingSessions = (gameId: string) =>
+  games().doc(gameId).collection('recordingSessions');
+
+/** The fields a move may change, ready for `update`. Settings such as `word` never change. */
+export const toUpdate = (game: GameDocument) => ({
+  phase: game.phase,
+  turn: game.turn,
+  players: game.players,
+  order: playerOrder(game),
+  playerUids: playerUids(game),
+  current: game.current,
+  history: game.history,
+  deadline: game.deadline ?? FieldValue.delete(),
+  ...(game.winner ? { winner: game.winner } : {}),
+  ...(game.ratings ? { ratings: game.ratings } : {}),
+  updatedAt: FieldValue.serverTimestamp(),
+});
+
+/** Every finished game a player sat in, keyed by game id; feeds the rolling leaderboard. */
+export const ratingHistory = (uid: string) => users().doc(uid).collection('ratingHistory');
+
+const NOTHING_TO_SETTLE = { game: undefined, commit: () => undefined };
+
+/**
+ * Moves the game's public lobby along with a move to `next` at `ts`: closed once the game is won,
+ * otherwise marked active, so the lobby cleanup only reads lobbies whose game went quiet. Games
+ * without a lobby are left alone. It reads the lobby, so call it before the transaction's first
+ * write; `commit` makes the write.
+ */
+export const followLobby = async (
+  tx: Transaction,
+  gameId: string,
+  next: GameDocument,
+  ts: string
+) => {
+  const lobbyRef = lobbies().doc(gameId);
+  const lobby = await tx.get(lobbyRef);
+  const changes = lobby.exists ? lobbyUpdate(lobby.data() as LobbyDocument, next, ts) : undefined;
+  return () => {
+    if (changes) {
+      tx.update(lobbyRef, changes);
+    }
+  };
+};
+
+/**
+ * Rates a game that `next` just finished and counts it on every seated player's profile. It reads the players' ratings, so call it before the transaction's first write; `commit`
+ * makes the other writes, and the returned game carries `ratings` for the game document.
+ */
+export const settleGame = async (
+  tx: Transaction,
+  gameId: string,
+  previous: GameDocument,
+  next: GameDocument,
+  ts: string
+): Promise<{ game?: GameDocument; commit: () => void }> => {
+  if (previous.winner || !next.winner) {
+    return NOTHING_TO_SETTLE;
+  }
+  const seats = seatedSlots(next);
+  const refs = seats.map((slot) => users().doc(next.players[slot]?.uid as string));
+  const snapshots = await tx.getAll(...refs);
+  const current: Partial<Record<PlayerSlot, PlayerRating>> = {};
+  seats.forEach((slot, index) => {
+    const profile = snapshots[index].data() as Partial<UserProfile> | undefined;
+    if (profile?.rating !== undefined) {
+      current[slot] = { rating: profile.rating, ratedGames: profile.ratedGames ?? 0 };
+    }
+  });
+  const ratings = rateGame(next, current);
+
+  const commit = () => {
+    seats.forEach((slot, index) => {
+      const change = ratings[slot] as RatingChange;
+      const won = slot === next.winner;
+      const win = FieldValue.increment(won ? 1 : 0);
+      tx.set(
+        refs[index],
+        {
+          rating: change.after,
+          ratedGames: FieldValue.increment(1),
+          stats: { gamesPlayed: FieldValue.increment(1), gamesWon: win },
+          recent: {
+            ratingChange: FieldValue.increment(change.after - change.before),
+            gamesPlayed: FieldValue.increment(1),
+            gamesWon: win,
+          },
+        },
+        { merge: true }
+      );
+      const entry: RatingHistoryEntry = { gameId, ...change, won, ts };
+      tx.set(ratingHistory(refs[index].id).doc(gameId), entry);
+    });
+  };
+  return { game: { ...next, ratings }, commit };
+};
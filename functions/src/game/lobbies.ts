@@ -0,0 +1,44 @@
+import type { QuerySnapshot } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { db } from '../firebase';
+import { lobbies } from './documents';
+import { staleLobbyBefore } from '../../../src/game/lobbies';
+
+const BATCH_SIZE = 400;
+
+const closeAll = async (stale: QuerySnapshot) => {
+  if (stale.empty) {
+    return;
+  }
+  const batch = db.batch();
+  stale.docs.forEach((doc) => batch.update(doc.ref, { status: 'closed' }));
+  await batch.commit();
+};
+
+/**
+ * Closes lobbies that sat open too long for anyone to still be waiting on the other end, and live
+ * ones whose game has not moved for as long. Every move stamps its lobby's `activeAt`, so both
+ * queries only read the lobbies to close. Their games stay reachable by code; they just leave the
+ * browser and quick-match.
+ */
+export const closeStaleLobbies = onSchedule('every 10 minutes', async () => {
+  const staleBefore = staleLobbyBefore(new Date().toISOString());
+  const [open, idle] = await Promise.all([
+    lobbies()
+      .where('status', '==', 'open')
+      .where('openedAt', '<=', staleBefore)
+      .limit(BATCH_SIZE)
+      .get(),
+    lobbies()
+      .where('status', '==', 'inProgress')
+      .where('activeAt', '<=', staleBefore)
+      .limit(BATCH_SIZE)
+      .get(),
+  ]);
+  await closeAll(open);
+  await closeAll(idle);
+  if (open.size || idle.size) {
+    logger.info('Closed stale lobbies', { open: open.size, idle: idle.size });
+  }
+});
@@ -0,0 +1,38 @@
+import { logger } from 'firebase-functions/v2';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { db } from '../firebase';
+import { followLobby, games, settleGame, toUpdate } from './documents';
+import { applyTimeout, isRuleViolation } from '../../../src/game/rules';
+import type { GameDocument } from '../../../src/game/types';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Resolves every phase whose shot clock ran out: recording phases self-fail and judging phases take
+ * the game's default verdict. Each game is re-checked inside its own transaction, so a move that
+ * lands just before the job runs wins.
+ */
+export const expireShotClocks = onSchedule('every 1 minutes', async () => {
+  const now = new Date().toISOString();
+  const expired = await games().where('deadline', '<=', now).limit(BATCH_SIZE).get();
+
+  for (const doc of expired.docs) {
+    try {
+      await db.runTransaction(async (tx) => {
+        const snapshot = await tx.get(doc.ref);
+        const game = snapshot.data() as GameDocument;
+        const next = applyTimeout(game, now);
+        if (isRuleViolation(next)) {
+          return;
+        }
+        const settled = await settleGame(tx, doc.id, game, next, now);
+        const commitLobby = await followLobby(tx, doc.id, next, now);
+        tx.update(doc.ref, toUpdate(settled.game ?? next));
+        settled.commit();
+        commitLobby();
+      });
+    } catch (error) {
+      logger.error('Failed to expire shot clock', { gameId: doc.id, error });
+    }
+  }
+});
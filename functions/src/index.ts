@@ -0,0 +1,22 @@
+export {
+  createGame,
+  joinGame,
+  quickMatch,
+  rematch,
+  makeReel,
+  startRecordingSession,
+  claimRecordingSession,
+  submitSetClip,
+  judgeSet,
+  submitRespClip,
+  judgeResp,
+  selfFailSet,
+  selfFailResp,
+} from './game/callables';
+export { challengeSkater, answerChallenge, expireChallenges } from './game/challenges';
+export { ensureProfile, updateProfile } from './users/profiles';
+export { startAccountMerge, mergeAccount } from './users/accounts';
+export { rollRecentStandings } from './users/standings';
+export { expireShotClocks } from './game/shotClock';
+export { closeStaleLobbies } from './game/lobbies';
+export { processClip } from './clips/processClip';
@@ -0,0 +1,92 @@
+import { FieldPath, type DocumentReference } from 'firebase-admin/firestore';
+import { db, storage } from '../firebase';
+import { games } from '../game/documents';
+import { migrateClipPaths, type ClipPathMove } from '../../../src/game/paths';
+import type { GameDocument } from '../../../src/game/types';
+
+const PAGE_SIZE = 100;
+
+/** Copies a legacy clip into the canonical layout. Returns false when there is nothing to copy. */
+const copyClip = async ({ from, to }: ClipPathMove) => {
+  const bucket = storage.bucket();
+  const target = bucket.file(to);
+  const [copied] = await target.exists();
+  if (copied) {
+    return true;
+  }
+  const source = bucket.file(from);
+  const [found] = await source.exists();
+  if (!found) {
+    return false;
+  }
+  // Copies keep the object's metadata, so existing download tokens keep working.
+  await source.copy(target);
+  return true;
+};
+
+/**
+ * Moves one game's clips into the canonical layout and points `current` and `history` at them.
+ * Old objects are left in place; the copies go through processClip like any upload. Games with a
+ * missing clip are reported and left untouched.
+ */
+const migrateGame = async (ref: DocumentReference, dryRun: boolean) => {
+  const snapshot = await ref.get();
+  const { moves } = migrateClipPaths(ref.id, snapshot.data() as GameDocument);
+  if (!moves.length || dryRun) {
+    moves.forEach(({ from, to }) => console.log(`${ref.id}: ${from} -> ${to}`));
+    return moves.length;
+  }
+  for (const move of moves) {
+    if (!(await copyClip(move))) {
+      console.warn(`${ref.id}: ${move.from} is missing, skipping the game`);
+      return 0;
+    }
+  }
+  // Callables only accept canonical paths now, so a move made since the read adds no legacy ones.
+  await db.runTransaction(async (tx) => {
+    const fresh = await tx.get(ref);
+    const { game } = migrateClipPaths(ref.id, fresh.data() as GameDocument);
+    tx.update(ref, { current: game.current, history: game.history });
+  });
+  return moves.length;
+};
+
+/** Walks every game in id order. Safe to re-run: migrated games have no moves left. */
+export const migrateAllClipPaths = async (dryRun: boolean) => {
+  let last: string | undefined;
+  let scanned = 0;
+  let migrated = 0;
+  let clips = 0;
+  for (;;) {
+    let query = games().orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) {
+      query = query.startAfter(last);
+    }
+    const page = await query.get();
+    for (const doc of page.docs) {
+      const moved = await migrateGame(doc.ref, dryRun);
+      scanned += 1;
+      migrated += moved ? 1 : 0;
+      clips += moved;
+    }
+    if (page.size < PAGE_SIZE) {
+      break;
+    }
+    last = page.docs[page.docs.length - 1].id;
+  }
+  return { scanned, migrated, clips };
+};
+
+if (require.main === module) {
+  const dryRun = process.argv.includes('--dry-run');
+  migrateAllClipPaths(dryRun)
+    .then(({ scanned, migrated, clips }) =>
+      console.log(
+        `${dryRun ? 'Would move' : 'Moved'} ${clips} clips in ${migrated} of ${scanned} games`
+      )
+    )
+    .catch((error) => {
+      console.error(error);
+      process.exitCode = 1;
+    });
+}
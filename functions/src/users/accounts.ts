@@ -0,0 +1,170 @@
+import { FieldValue, type DocumentReference } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { auth, db, storage } from '../firebase';
+import { clips, games, mergeTickets, ratingHistory } from '../game/documents';
+import { requireString, requireUid } from '../validation';
+import { mergeProfiles } from './profiles';
+import { mergeTicket, transferSeat, type MergeTicket } from '../../../src/game/accounts';
+import { clipFolder } from '../../../src/game/paths';
+import { playerUids } from '../../../src/game/profiles';
+import { PLAYER_SLOTS, slotForUid } from '../../../src/game/rules';
+import type { GameDocument } from '../../../src/game/types';
+
+const BATCH_SIZE = 400;
+
+// `playerUids` finds current games; older ones without it are found seat by seat.
+const gamesPlayedBy = async (uid: string) => {
+  const snapshots = await Promise.all([
+    games().where('playerUids', 'array-contains', uid).get(),
+    ...PLAYER_SLOTS.map((slot) => games().where(`players.${slot}.uid`, '==', uid).get()),
+  ]);
+  const refs = new Map<string, DocumentReference>();
+  snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => refs.set(doc.id, doc.ref)));
+  return [...refs.values()];
+};
+
+/**
+ * Hands the guest's seat to the account in each of `played`. Games the account already has a seat
+ * in can't take a second one and stay with the guest; they come back as `kept`.
+ */
+const moveGames = async (played: DocumentReference[], fromUid: string, toUid: string) => {
+  let moved = 0;
+  let kept = 0;
+  for (const ref of played) {
+    const outcome = await db.runTransaction(async (tx) => {
+      const game = (await tx.get(ref)).data() as GameDocument | undefined;
+      if (!game || !slotForUid(game, fromUid)) {
+        return 'gone';
+      }
+      const next = transferSeat(game, fromUid, toUid);
+      if (!next) {
+        return 'kept';
+      }
+      tx.update(ref, {
+        players: next.players,
+        playerUids: playerUids(next),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return 'moved';
+    });
+    if (outcome === 'moved') {
+      moved += 1;
+    } else if (outcome === 'kept') {
+      kept += 1;
+    }
+  }
+  return { moved, kept };
+};
+
+// The files stay in the guest's folder; only the ownership recorded in /clips moves.
+const moveClips = async (fromUid: string, toUid: string) => {
+  const owned = await clips().where('ownerUid', '==', fromUid).get();
+  for (let start = 0; start < owned.docs.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    owned.docs
+      .slice(start, start + BATCH_SIZE)
+      .forEach((doc) => batch.update(doc.ref, { ownerUid: toUid }));
+    await batch.commit();
+  }
+};
+
+/**
+ * Keeps the games the guest finished in the saved account's rolling window. Entries are keyed by
+ * game, so one the account already has is a game they both played; it stays with the guest.
+ * Returns how many stayed.
+ */
+const moveRatingHistory = async (fromUid: string, toUid: string) => {
+  const entries = await ratingHistory(fromUid).get();
+  let kept = 0;
+  for (let start = 0; start < entries.docs.length; start += BATCH_SIZE / 2) {
+    const page = entries.docs.slice(start, start + BATCH_SIZE / 2);
+    const existing = await db.getAll(...page.map((doc) => ratingHistory(toUid).doc(doc.id)));
+    const batch = db.batch();
+    page.forEach((doc, index) => {
+      if (existing[index].exists) {
+        kept += 1;
+        return;
+      }
+      batch.set(ratingHistory(toUid).doc(doc.id), doc.data());
+      batch.delete(doc.ref);
+    });
+    await batch.commit();
+  }
+  return kept;
+};
+
+// Recorded clips stay at their paths under the guest's uid, which the games' histories point at.
+const hasClipFiles = async (played: DocumentReference[], uid: string) => {
+  for (const ref of played) {
+    const [files] = await storage.bucket().getFiles({
+      prefix: clipFolder(ref.id, uid),
+      maxResults: 1,
+      autoPaginate: false,
+    });
+    if (files.length) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Called by a guest whose "Save your account" sign-in turned out to belong to an existing account,
+ * before the client switches to it. The ticket it returns proves the guest's ownership to
+ * `mergeAccount`, now or on a retry after the guest's own sign-in is gone.
+ */
+export const startAccountMerge = onCall(async (request) => {
+  const uid = requireUid(request);
+  if (request.auth?.token.firebase.sign_in_provider !== 'anonymous') {
+    throw new HttpsError('permission-denied', 'Only guest accounts can be merged');
+  }
+  const ref = mergeTickets().doc();
+  await ref.set(mergeTicket(uid, new Date().toISOString()));
+  return { ticket: ref.id };
+});
+
+// Firestore auto-ids; anything else can't name a ticket.
+const TICKET_PATTERN = /^[A-Za-z0-9]{1,64}$/;
+
+/**
+ * Moves the ticket's guest account's games, profile stats, ratings and clips to the caller.
+ *
+ * Every step can run again: a retry after a failure picks up whatever the last attempt left with
+ * the guest, and the ticket is only spent once the merge went through. The guest account is only
+ * deleted once nothing points at it any more, so it stays while it holds a seat the account
+ * couldn't take, or clips stored under its uid.
+ */
+export const mergeAccount = onCall(async (request) => {
+  const uid = requireUid(request);
+  const ticketId = requireString(request.data?.ticket, 'ticket');
+  const ticketRef = TICKET_PATTERN.test(ticketId) ? mergeTickets().doc(ticketId) : undefined;
+  const ticket = (await ticketRef?.get())?.data() as MergeTicket | undefined;
+  if (!ticketRef || !ticket || ticket.expiresAt <= new Date().toISOString()) {
+    throw new HttpsError('not-found', 'This account merge has expired');
+  }
+  const { guestUid } = ticket;
+  if (guestUid === uid) {
+    await ticketRef.delete();
+    return { games: 0 };
+  }
+
+  const played = await gamesPlayedBy(guestUid);
+  const { moved, kept } = await moveGames(played, guestUid, uid);
+  await mergeProfiles(guestUid, uid);
+  const keptEntries = await moveRatingHistory(guestUid, uid);
+  await moveClips(guestUid, uid);
+  await ticketRef.delete();
+  logger.info('Merged guest account', { guestUid, uid, games: moved });
+
+  if (kept || keptEntries || (await hasClipFiles(played, guestUid))) {
+    logger.info('Kept merged guest account', { guestUid, games: kept, keptEntries });
+    return { games: moved };
+  }
+  try {
+    await auth.deleteUser(guestUid);
+  } catch (error) {
+    logger.warn('Failed to delete merged guest account', { guestUid, error });
+  }
+  return { games: moved };
+});
@@ -0,0 +1,192 @@
+import { randomInt } from 'crypto';
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from '../firebase';
+import { handles, ratingHistory, users } from '../game/documents';
+import { requireString, requireUid } from '../validation';
+import {
+  EMPTY_STATS,
+  MAX_BIO_LENGTH,
+  isAvatarUrl,
+  normalizeHandle,
+} from '../../../src/game/profiles';
+import { mergeRatings, mergeStats, withoutSharedGames } from '../../../src/game/accounts';
+import type { RatingHistoryEntry, UserProfile } from '../../../src/game/types';
+
+const GENERATED_HANDLE_PREFIX = 'skater';
+const MAX_HANDLE_ATTEMPTS = 5;
+
+// Profiles written before the player's first game finished may hold nothing but stats.
+const readProfile = (data: DocumentData | undefined) =>
+  data?.handle ? (data as UserProfile) : undefined;
+
+/**
+ * Creates the caller's profile on first sign-in under a generated `skater12345` handle, which they
+ * can change later. Returns the existing profile on every later call.
+ */
+export const ensureProfile = onCall(async (request) => {
+  const uid = requireUid(request);
+  const ref = users().doc(uid);
+  const existing = readProfile((await ref.get()).data());
+  if (existing) {
+    return existing;
+  }
+
+  for (let attempt = 0; attempt < MAX_HANDLE_ATTEMPTS; attempt += 1) {
+    const handleRef = handles().doc(`${GENERATED_HANDLE_PREFIX}${randomInt(10000, 100000)}`);
+    const created = await db.runTransaction(async (tx) => {
+      const [snapshot, reservation] = await Promise.all([tx.get(ref), tx.get(handleRef)]);
+      const raced = readProfile(snapshot.data());
+      if (raced || reservation.exists) {
+        return raced;
+      }
+      const profile: UserProfile = {
+        uid,
+        handle: handleRef.id,
+        stats: { ...EMPTY_STATS, ...snapshot.data()?.stats },
+      };
+      tx.set(handleRef, { uid, createdAt: FieldValue.serverTimestamp() });
+      tx.set(ref, {
+        ...profile,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return profile;
+    });
+    if (created) {
+      return created;
+    }
+  }
+  throw new HttpsError('resource-exhausted', 'Could not allocate a handle, try again');
+});
+
+const optionalHandle = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const handle = normalizeHandle(requireString(value, 'handle'));
+  if (!handle) {
+    throw new HttpsError('invalid-argument', 'Handle must be 3-20 letters, digits or underscores');
+  }
+  return handle;
+};
+
+// An empty string clears the field.
+const optionalText = (
+  value: unknown,
+  field: string,
+  isValid: (text: string) => boolean,
+  message: string
+) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpsError('invalid-argument', `${field} must be text`);
+  }
+  const text = value.trim();
+  if (!text) {
+    return FieldValue.delete();
+  }
+  if (!isValid(text)) {
+    throw new HttpsError('invalid-argument', message);
+  }
+  return text;
+};
+
+/**
+ * Changes the caller's handle, bio or avatar. A new handle is reserved and the old one released in
+ * the same transaction, so a taken handle fails with `already-exists` and nothing else changes.
+ */
+export const updateProfile = onCall(async (request) => {
+  const uid = requireUid(request);
+  const handle = optionalHandle(request.data?.handle);
+  const bio = optionalText(
+    request.data?.bio,
+    'bio',
+    (text) => text.length <= MAX_BIO_LENGTH,
+    `Bio must be ${MAX_BIO_LENGTH} characters or less`
+  );
+  const avatarUrl = optionalText(
+    request.data?.avatarUrl,
+    'avatarUrl',
+    isAvatarUrl,
+    'avatarUrl must be an https link'
+  );
+  const ref = users().doc(uid);
+
+  await db.runTransaction(async (tx) => {
+    const profile = readProfile((await tx.get(ref)).data());
+    if (!profile) {
+      throw new HttpsError('failed-precondition', 'Profile has not been created yet');
+    }
+    const changes: Record<string, unknown> = { updatedAt: FieldValue.serverTimestamp() };
+    if (handle && handle !== profile.handle) {
+      const handleRef = handles().doc(handle);
+      if ((await tx.get(handleRef)).exists) {
+        throw new HttpsError('already-exists', `@${handle} is taken`);
+      }
+      tx.delete(handles().doc(profile.handle));
+      tx.set(handleRef, { uid, createdAt: FieldValue.serverTimestamp() });
+      changes.handle = handle;
+    }
+    if (bio !== undefined) {
+      changes.bio = bio;
+    }
+    if (avatarUrl !== undefined) {
+      changes.avatarUrl = avatarUrl;
+    }
+    tx.update(ref, changes);
+  });
+
+  return readProfile((await ref.get()).data());
+});
+
+/**
+ * Folds `fromUid`'s profile into `toUid`'s: stats add up, ratings merge as `mergeRatings` says, and
+ * if `toUid` has no profile yet it takes over `fromUid`'s handle, bio and avatar. `fromUid`'s
+ * profile is deleted either way.
+ *
+ * A game both uids sat at is in both rating histories and counted on both profiles, so it is taken
+ * out of `fromUid`'s side first.
+ */
+export const mergeProfiles = (fromUid: string, toUid: string) =>
+  db.runTransaction(async (tx) => {
+    const fromRef = users().doc(fromUid);
+    const toRef = users().doc(toUid);
+    const [fromSnapshot, toSnapshot] = await Promise.all([tx.get(fromRef), tx.get(toRef)]);
+    if (!fromSnapshot.exists) {
+      return;
+    }
+    const history = await tx.get(ratingHistory(fromUid));
+    const overlap = history.empty
+      ? []
+      : await tx.getAll(...history.docs.map((doc) => ratingHistory(toUid).doc(doc.id)));
+    const shared = history.docs
+      .filter((_, index) => overlap[index]?.exists)
+      .map((doc) => doc.data() as RatingHistoryEntry);
+    const from = fromSnapshot.data();
+    const to = toSnapshot.data();
+    const counted = withoutSharedGames(from, shared, new Date().toISOString());
+    const stats = mergeStats(counted?.stats, to?.stats);
+    const ratings = mergeRatings(counted, to);
+    const moved = readProfile(from);
+    if (readProfile(to) || !moved) {
+      tx.set(
+        toRef,
+        { stats, ...ratings, updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+      if (moved) {
+        tx.delete(handles().doc(moved.handle));
+      }
+    } else {
+      tx.set(
+        toRef,
+        { ...moved, uid: toUid, stats, ...ratings, updatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      );
+      tx.set(handles().doc(moved.handle), { uid: toUid }, { merge: true });
+    }
+    tx.delete(fromRef);
+  });
@@ -0,0 +1,47 @@
+import { logger } from 'firebase-functions/v2';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from '../firebase';
+import { ratingHistory, users } from '../game/documents';
+import { recentStanding, recentWindowStart } from '../../../src/game/ratings';
+import type { RatingHistoryEntry } from '../../../src/game/types';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Recomputes the `recent` standing of every profile that has one, `pageSize` profiles at a time.
+ * Pages follow a cursor, so each player is reached however many there are; a profile that drops
+ * out or falls back in the order has already been rolled.
+ */
+export const rollStandings = async (now: string, pageSize = PAGE_SIZE) => {
+  const start = recentWindowStart(now);
+  const active = users().where('recent.gamesPlayed', '>', 0).orderBy('recent.gamesPlayed');
+  let cursor: QueryDocumentSnapshot | undefined;
+  do {
+    const page = await (cursor ? active.startAfter(cursor) : active).limit(pageSize).get();
+    for (const doc of page.docs) {
+      try {
+        await db.runTransaction(async (tx) => {
+          const history = await tx.get(ratingHistory(doc.id).where('ts', '>=', start));
+          const recent = recentStanding(
+            history.docs.map((entry) => entry.data() as RatingHistoryEntry),
+            now
+          );
+          tx.update(doc.ref, { recent: recent ?? FieldValue.delete() });
+        });
+      } catch (error) {
+        logger.error('Failed to roll recent standing', { uid: doc.id, error });
+      }
+    }
+    cursor = page.size === pageSize ? page.docs[page.size - 1] : undefined;
+  } while (cursor);
+};
+
+/**
+ * Finished games add to a player's `recent` standing as they settle; this drops the games that have
+ * since left the rolling window. Each profile is recomputed from its rating history inside its own
+ * transaction, so a game settling while the job runs is never lost.
+ */
+export const rollRecentStandings = onSchedule('every day 04:00', () =>
+  rollStandings(new Date().toISOString())
+);
@@ -0,0 +1,53 @@
+// Argument checks shared by the callables; a failed check reaches the client as an HttpsError.
+
+import {
+  HttpsError,
+  type CallableRequest,
+  type FunctionsErrorCode,
+} from 'firebase-functions/v2/https';
+import type { RuleViolation, RuleViolationCode } from '../../src/game/rules';
+
+export const requireUid = (request: CallableRequest) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Sign in to play');
+  }
+  return request.auth.uid;
+};
+
+export const requireString = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpsError('invalid-argument', `Missing ${field}`);
+  }
+  return value.trim();
+};
+
+export const requireBoolean = (value: unknown, field: string) => {
+  if (typeof value !== 'boolean') {
+    throw new HttpsError('invalid-argument', `Missing ${field}`);
+  }
+  return value;
+};
+
+const violationErrors: Record<RuleViolationCode, FunctionsErrorCode> = {
+  game_over: 'failed-precondition',
+  waiting_for_opponent: 'failed-precondition',
+  wrong_phase: 'failed-precondition',
+  not_a_player: 'permission-denied',
+  not_shooter: 'permission-denied',
+  not_judge: 'permission-denied',
+  not_expired: 'failed-precondition',
+  game_started: 'failed-precondition',
+  game_full: 'resource-exhausted',
+  game_in_progress: 'failed-precondition',
+  clip_too_long: 'invalid-argument',
+  unattested_clip: 'permission-denied',
+  duplicate_clip: 'already-exists',
+  retake_not_allowed: 'failed-precondition',
+  reel_rendering: 'failed-precondition',
+  not_challenged: 'permission-denied',
+  challenge_closed: 'failed-precondition',
+};
+
+/** A broken game rule, with its code in `details.violation` for the client. */
+export const toHttpsError = ({ violation, message }: RuleViolation) =>
+  new HttpsError(violationErrors[violation], message, { violation });
@@ -0,0 +1,115 @@
+// Account merging. A guest who saves their account with a sign-in that already has an account of
+// its own is signed into that account, and everything the guest uid played moves over to it.
+
+import { recentStanding } from './ratings';
+import { slotForUid } from './rules';
+import type { GameDocument, ProfileStats, RatingHistoryEntry, UserProfile } from './types';
+
+/**
+ * Hands `fromUid`'s seat to `toUid`. Returns `undefined` when `fromUid` has no seat, or when
+ * `toUid` already has one, since one player can't hold two seats in the same game.
+ */
+export const transferSeat = (
+  game: GameDocument,
+  fromUid: string,
+  toUid: string
+): GameDocument | undefined => {
+  const slot = slotForUid(game, fromUid);
+  const player = slot ? game.players[slot] : undefined;
+  if (!slot || !player || slotForUid(game, toUid)) {
+    return undefined;
+  }
+  return { ...game, players: { ...game.players, [slot]: { ...player, uid: toUid } } };
+};
+
+/** How long a guest's merge ticket can still be redeemed by the account it signed in to. */
+export const MERGE_TICKET_DAYS = 30;
+
+/**
+ * Stored privately at `mergeTickets/{ticketId}`; the id is the secret. The guest takes one out
+ * before the client switches accounts, so a merge that fails afterwards can still be retried once
+ * the guest's own sign-in is gone.
+ */
+export interface MergeTicket {
+  guestUid: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export const mergeTicket = (guestUid: string, issuedAt: string): MergeTicket => ({
+  guestUid,
+  issuedAt,
+  expiresAt: new Date(Date.parse(issuedAt) + MERGE_TICKET_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+});
+
+export const mergeStats = (
+  a: Partial<ProfileStats> | undefined,
+  b: Partial<ProfileStats> | undefined
+): ProfileStats => ({
+  gamesPlayed: (a?.gamesPlayed ?? 0) + (b?.gamesPlayed ?? 0),
+  gamesWon: (a?.gamesWon ?? 0) + (b?.gamesWon ?? 0),
+});
+
+/**
+ * Takes the games both accounts sat at out of `from`'s stats and recent standing, so the merged
+ * profile counts each once, as the account being kept played it. `shared` are `from`'s rating
+ * history entries for those games; only the ones still in the window at `now` count as recent.
+ */
+export const withoutSharedGames = (
+  from: Partial<UserProfile> | undefined,
+  shared: RatingHistoryEntry[],
+  now: string
+): Partial<UserProfile> | undefined => {
+  if (!from || !shared.length) {
+    return from;
+  }
+  const won = shared.filter((entry) => entry.won).length;
+  const next: Partial<UserProfile> = {
+    ...from,
+    stats: {
+      gamesPlayed: Math.max((from.stats?.gamesPlayed ?? 0) - shared.length, 0),
+      gamesWon: Math.max((from.stats?.gamesWon ?? 0) - won, 0),
+    },
+  };
+  const overlap = recentStanding(shared, now);
+  if (from.recent && overlap) {
+    const gamesPlayed = from.recent.gamesPlayed - overlap.gamesPlayed;
+    if (gamesPlayed > 0) {
+      next.recent = {
+        ratingChange: from.recent.ratingChange - overlap.ratingChange,
+        gamesPlayed,
+        gamesWon: Math.max(from.recent.gamesWon - overlap.gamesWon, 0),
+      };
+    } else {
+      delete next.recent;
+    }
+  }
+  return next;
+};
+
+/**
+ * The rating fields of a merged profile. Two ratings can't be averaged into anything meaningful, so
+ * the account being kept holds on to its own and only takes `from`'s when it has none; the recent
+ * standings add up like the stats.
+ */
+export const mergeRatings = (
+  from: Partial<UserProfile> | undefined,
+  to: Partial<UserProfile> | undefined
+): Pick<UserProfile, 'rating' | 'ratedGames' | 'recent'> => {
+  const rated = to?.rating !== undefined ? to : from;
+  const recent = [from?.recent, to?.recent].filter((standing) => standing !== undefined);
+  return {
+    ...(rated?.rating !== undefined
+      ? { rating: rated.rating, ratedGames: rated.ratedGames ?? 0 }
+      : {}),
+    ...(recent.length
+      ? {
+          recent: {
+            ratingChange: recent.reduce((sum, standing) => sum + standing.ratingChange, 0),
+            gamesPlayed: recent.reduce((sum, standing) => sum + standing.gamesPlayed, 0),
+            gamesWon: recent.reduce((sum, standing) => sum + standing.gamesWon, 0),
+          },
+        }
+      : {}),
+  };
+};
@@ -0,0 +1,237 @@
+// Recording attestation: the server hands the shooter a short-lived session when they press record,
+// and a clip is only accepted with the session of the take it came from. A take recorded offline
+// gets its session from the upload queue instead, once the connection is back. Pure like the rules,
+// so the callables can run it inside their transaction and the tests can run it anywhere.
+
+import { CLIP_LENGTH_TOLERANCE_MS, canRetake, clipLimitMs, phaseStartedAt } from './rules';
+import type { RuleViolation } from './rules';
+import type { GameDocument, GamePhase, PlayerSlot } from './types';
+
+/**
+ * How long after the longest allowed take the clip still has to reach Storage. The upload queue
+ * restarts it right before uploading, so the clip only has to make it up from there.
+ */
+export const RECORDING_UPLOAD_WINDOW_MS = 15 * 60 * 1000;
+/** Slack for the round trip between the session being issued and the recorder starting. */
+export const ATTESTATION_SKEW_MS = 5000;
+
+/** Stored privately at `games/{gameId}/recordingSessions/{sessionId}`; the id is the token. */
+export interface RecordingSession {
+  uid: string;
+  slot: PlayerSlot;
+  phase: GamePhase;
+  /** Length of the game's history when issued; any move since makes it a different turn. */
+  historyLength: number;
+  issuedAt: string;
+  expiresAt: string;
+  /**
+   * Set when the session was issued after its take, which the recorder shot without a connection.
+   * The take then only has to fall inside the phase, as its shot clock dates it, instead of after
+   * `issuedAt`.
+   */
+  offline?: boolean;
+  /** Set once a clip has been submitted with this session, so a take counts only once. */
+  usedAt?: string;
+}
+
+/** What `startRecordingSession` hands the recorder, and `claimRecordingSession` the upload queue. */
+export interface RecordingTicket {
+  sessionId: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Written into the clip's custom metadata by the recorder. Times are on the server's clock: the
+ * recorder offsets its own by the difference to the ticket's `issuedAt`.
+ */
+export interface ClipAttestation {
+  sessionId: string;
+  startedAt: string;
+  stoppedAt: string;
+}
+
+/** Custom metadata keys; storage.rules requires them on every clip upload. */
+export const ATTESTATION_METADATA = {
+  sessionId: 'recordingSession',
+  startedAt: 'recordingStartedAt',
+  stoppedAt: 'recordingStoppedAt',
+} as const;
+
+/**
+ * What the recorder keeps with a take until it is uploaded. A take shot offline has no session yet;
+ * the upload queue claims one before the clip goes up.
+ */
+export interface TakeAttestation extends Omit<ClipAttestation, 'sessionId'> {
+  sessionId?: string;
+}
+
+export const toAttestationMetadata = (attestation: ClipAttestation): Record<string, string> => ({
+  [ATTESTATION_METADATA.sessionId]: attestation.sessionId,
+  [ATTESTATION_METADATA.startedAt]: attestation.startedAt,
+  [ATTESTATION_METADATA.stoppedAt]: attestation.stoppedAt,
+});
+
+// Firestore auto-ids; anything else can't name a session document.
+const SESSION_ID_PATTERN = /^[A-Za-z0-9]{1,64}$/;
+
+export const isSessionId = (value: unknown): value is string =>
+  typeof value === 'string' && SESSION_ID_PATTERN.test(value);
+
+export const readAttestation = (
+  metadata: Record<string, unknown> | undefined
+): ClipAttestation | undefined => {
+  const sessionId = metadata?.[ATTESTATION_METADATA.sessionId];
+  const startedAt = metadata?.[ATTESTATION_METADATA.startedAt];
+  const stoppedAt = metadata?.[ATTESTATION_METADATA.stoppedAt];
+  if (!isSessionId(sessionId) || typeof startedAt !== 'string' || typeof stoppedAt !== 'string') {
+    return undefined;
+  }
+  return { sessionId, startedAt, stoppedAt };
+};
+
+const uploadWindowFrom = (ms: number) => new Date(ms + RECORDING_UPLOAD_WINDOW_MS).toISOString();
+
+/**
+ * A session lasts for the phase's longest take plus the upload window. An `offline` one is issued
+ * for a take that is already over, so it only gets the upload window.
+ */
+export const recordingSession = (
+  game: GameDocument,
+  uid: string,
+  slot: PlayerSlot,
+  issuedAt: string,
+  offline = false
+): RecordingSession => ({
+  uid,
+  slot,
+  phase: game.phase,
+  historyLength: game.history.length,
+  issuedAt,
+  expiresAt: uploadWindowFrom(
+    Date.parse(issuedAt) + (offline ? 0 : clipLimitMs(game) + CLIP_LENGTH_TOLERANCE_MS)
+  ),
+  ...(offline ? { offline } : {}),
+});
+
+/** Restarts the upload window from `now`, for a take that waited in the upload queue. */
+export const renewRecordingSession = (
+  session: RecordingSession,
+  now: string
+): RecordingSession => ({
+  ...session,
+  expiresAt: uploadWindowFrom(Date.parse(now)),
+});
+
+/**
+ * Returns why the shooter can't open another session, given the ones already issued to them for
+ * this turn. Without the retake house rule a set is one take, so only its first session counts.
+ */
+export const checkNewSession = (
+  game: GameDocument,
+  issued: RecordingSession[]
+): RuleViolation | undefined =>
+  issued.length && !canRetake(game)
+    ? { violation: 'retake_not_allowed', message: 'This game allows one take per set' }
+    : undefined;
+
+const unattested = (message: string): RuleViolation => ({
+  violation: 'unattested_clip',
+  message,
+});
+
+/**
+ * Returns why a take shot offline can't get a session for the game's current phase: with no shot
+ * clock running, the server has no start time to hold the take to, so it has to be shot online.
+ */
+export const checkOfflineSession = (game: GameDocument): RuleViolation | undefined =>
+  phaseStartedAt(game)
+    ? undefined
+    : unattested('This take has to be recorded online; the shot clock has not started');
+
+export interface AttestedClip {
+  /** The session named by the clip's metadata, if it exists. */
+  session?: RecordingSession;
+  attestation?: ClipAttestation;
+  /** `uploaderUid` from the clip's metadata. */
+  uploaderUid?: string;
+  /** When Storage finished receiving the clip. */
+  uploadedAt: string;
+  durationMs?: number;
+}
+
+/**
+ * Returns why `uid` can't use `session` from `slot` any more: it is spent, or was issued for
+ * another player or turn.
+ */
+export const checkSession = (
+  game: GameDocument,
+  uid: string,
+  slot: PlayerSlot,
+  session: RecordingSession
+): RuleViolation | undefined => {
+  if (session.usedAt) {
+    return unattested('This take has already been submitted');
+  }
+  if (
+    session.uid !== uid ||
+    session.slot !== slot ||
+    session.slot !== game.current.by ||
+    session.phase !== game.phase ||
+    session.historyLength !== game.history.length
+  ) {
+    return unattested('Clip was recorded for a different turn');
+  }
+  return undefined;
+};
+
+/**
+ * Returns why a clip submitted by `uid` from `slot` can't be accepted for the game's current
+ * phase, or `undefined` if it was recorded in a session issued for exactly this turn: live, or
+ * claimed afterwards for a take shot offline during the turn.
+ */
+export const checkAttestation = (
+  game: GameDocument,
+  uid: string,
+  slot: PlayerSlot,
+  clip: AttestedClip
+): RuleViolation | undefined => {
+  const { session, attestation } = clip;
+  if (!attestation || !session) {
+    return unattested('Clip was not recorded in a recording session');
+  }
+  const rejected = checkSession(game, uid, slot, session);
+  if (rejected) {
+    return rejected;
+  }
+  if (clip.uploaderUid !== uid) {
+    return unattested('Clip was recorded for a different turn');
+  }
+
+  const issued = Date.parse(session.issuedAt);
+  const expires = Date.parse(session.expiresAt);
+  const started = Date.parse(attestation.startedAt);
+  const stopped = Date.parse(attestation.stoppedAt);
+  const uploaded = Date.parse(clip.uploadedAt);
+  // The session names this phase, so an offline take has to fall between its start and the claim.
+  const phaseStarted = Date.parse(phaseStartedAt(game) ?? '');
+  const filmedInSession = session.offline
+    ? started >= phaseStarted - ATTESTATION_SKEW_MS && stopped <= issued + ATTESTATION_SKEW_MS
+    : started >= issued - ATTESTATION_SKEW_MS;
+  if (
+    [started, stopped, uploaded].some(Number.isNaN) ||
+    !filmedInSession ||
+    stopped <= started ||
+    stopped > uploaded + ATTESTATION_SKEW_MS ||
+    uploaded > expires
+  ) {
+    return unattested('Clip timing does not match its recording session');
+  }
+  if (
+    stopped - started > clipLimitMs(game) + CLIP_LENGTH_TOLERANCE_MS + ATTESTATION_SKEW_MS ||
+    (clip.durationMs !== undefined && clip.durationMs > stopped - started + ATTESTATION_SKEW_MS)
+  ) {
+    return unattested('Clip is longer than the recording it came from');
+  }
+  return undefined;
+};
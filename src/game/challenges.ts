@@ -0,0 +1,61 @@
+// Direct challenges. A skater calls out another by handle; the challenge waits in the opponent's
+// inbox until they accept, which starts a game between the two, decline, or let it lapse.
+
+import { startShotClock } from './rules';
+import type { RuleViolation } from './rules';
+import type { ChallengeDocument, GameDocument } from './types';
+
+/** How long a challenge waits for an answer. */
+export const CHALLENGE_HOURS = 48;
+export const MAX_TRICK_LENGTH = 60;
+
+export const challengeExpiresAt = (ts: string) =>
+  new Date(Date.parse(ts) + CHALLENGE_HOURS * 60 * 60 * 1000).toISOString();
+
+/** Still waiting on the opponent at `ts`. */
+export const isOpenChallenge = (challenge: ChallengeDocument, ts: string) =>
+  challenge.status === 'pending' && challenge.expiresAt > ts;
+
+/** Why `uid` can't accept or decline the challenge at `ts`, if they can't. */
+export const checkAnswer = (
+  challenge: ChallengeDocument,
+  uid: string,
+  ts: string
+): RuleViolation | undefined => {
+  if (challenge.opponentUid !== uid) {
+    return { violation: 'not_challenged', message: 'Only the challenged skater can answer' };
+  }
+  if (challenge.status !== 'pending') {
+    return { violation: 'challenge_closed', message: `Challenge was already ${challenge.status}` };
+  }
+  if (challenge.expiresAt <= ts) {
+    return { violation: 'challenge_closed', message: 'Challenge has expired' };
+  }
+  return undefined;
+};
+
+/**
+ * The game an accepted challenge starts: the challenger sets first against the opponent, under
+ * their handles and the default settings. Both are seated, so the shot clock starts right away.
+ */
+export const challengeGame = (
+  challenge: ChallengeDocument,
+  ids: { gameId: string; code: string },
+  ts: string
+): GameDocument =>
+  startShotClock(
+    {
+      code: ids.code,
+      turn: 'A',
+      phase: 'SET_RECORD',
+      players: {
+        A: { uid: challenge.challengerUid, name: challenge.challengerHandle, letters: '' },
+        B: { uid: challenge.opponentUid, name: challenge.opponentHandle, letters: '' },
+      },
+      order: ['A', 'B'],
+      current: { by: 'A' },
+      history: [],
+      series: { id: ids.gameId, bestOf: 1, game: 1, wins: {} },
+    },
+    ts
+  );
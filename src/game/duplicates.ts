@@ -0,0 +1,143 @@
+// Duplicate clip detection. The clip pipeline fingerprints every upload by content hash and by a
+// perceptual hash of sampled frames; the submit callables reject byte-identical reuse and the
+// judge is warned about clips that merely look like an earlier one.
+
+import type { RuleViolation } from './rules';
+import type { ClipDocument, ClipMatch } from './types';
+
+/** Frames sampled evenly across a clip for its fingerprint. */
+export const FINGERPRINT_FRAMES = 16;
+/** Each sample is scaled to this grayscale size; one row yields one byte of the 64-bit hash. */
+export const FRAME_WIDTH = 9;
+export const FRAME_HEIGHT = 8;
+/** Mean bits out of 64 two fingerprints may differ by and still count as the same footage. */
+export const SIMILAR_DISTANCE = 6;
+// Fewer informative frames than this says too little about a clip to match it against others.
+const MIN_FRAMES = 4;
+// Frames whose brightest and darkest pixels are closer than this (black, blown out) hash to noise.
+const MIN_CONTRAST = 12;
+const BANDS = 4;
+
+/**
+ * Difference hash of one `FRAME_WIDTH` x `FRAME_HEIGHT` grayscale frame as 16 hex digits: a bit per
+ * horizontally adjacent pixel pair, set where the left one is brighter. Flat frames return
+ * undefined.
+ */
+export const frameHash = (pixels: ArrayLike<number>) => {
+  let min = 255;
+  let max = 0;
+  for (let index = 0; index < FRAME_WIDTH * FRAME_HEIGHT; index += 1) {
+    min = Math.min(min, pixels[index]);
+    max = Math.max(max, pixels[index]);
+  }
+  if (max - min < MIN_CONTRAST) {
+    return undefined;
+  }
+  let hash = '';
+  for (let row = 0; row < FRAME_HEIGHT; row += 1) {
+    let byte = 0;
+    for (let column = 0; column < FRAME_WIDTH - 1; column += 1) {
+      const left = pixels[row * FRAME_WIDTH + column];
+      const right = pixels[row * FRAME_WIDTH + column + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+/** The informative frames' hashes, in clip order. */
+export const fingerprintOf = (frames: ArrayLike<number>[]) =>
+  frames.map(frameHash).filter((hash): hash is string => !!hash);
+
+const bitCount = (value: number) => {
+  let bits = 0;
+  for (let rest = value; rest; rest &= rest - 1) {
+    bits += 1;
+  }
+  return bits;
+};
+
+export const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    distance += bitCount(parseInt(a[index], 16) ^ parseInt(b[index], 16));
+  }
+  return distance;
+};
+
+/**
+ * Mean distance from each frame of `a` to its nearest frame of `b`, so a trimmed or re-encoded
+ * copy still lines up. Infinity when either side has too few frames to judge.
+ */
+export const fingerprintDistance = (a: string[], b: string[]) => {
+  if (a.length < MIN_FRAMES || b.length < MIN_FRAMES) {
+    return Infinity;
+  }
+  const total = a.reduce(
+    (sum, hash) => sum + Math.min(...b.map((other) => hammingDistance(hash, other))),
+    0
+  );
+  return total / a.length;
+};
+
+/**
+ * Lookup keys for finding candidate matches with an `array-contains-any` query: each frame hash
+ * split into bands, so frames a few bits apart still share at least one key.
+ */
+export const fingerprintKeys = (fingerprint: string[]) => {
+  const width = 16 / BANDS;
+  const keys = new Set<string>();
+  fingerprint.forEach((hash) => {
+    for (let band = 0; band < BANDS; band += 1) {
+      keys.add(`${band}:${hash.slice(band * width, (band + 1) * width)}`);
+    }
+  });
+  return Array.from(keys);
+};
+
+const fileName = (storagePath: string) => storagePath.slice(storagePath.lastIndexOf('/') + 1);
+
+// The path migration copies clips within their game under the same file name; that is not reuse.
+const isSameUpload = (a: Pick<ClipDocument, 'gameId' | 'storagePath'>, b: ClipDocument) =>
+  a.storagePath === b.storagePath ||
+  (a.gameId === b.gameId && fileName(a.storagePath) === fileName(b.storagePath));
+
+export type FingerprintedClip = Pick<
+  ClipDocument,
+  'gameId' | 'storagePath' | 'contentHash' | 'fingerprint'
+>;
+
+const matchOf = (clip: ClipDocument, kind: ClipMatch['kind']): ClipMatch => {
+  const match: ClipMatch = { storagePath: clip.storagePath, gameId: clip.gameId, kind };
+  if (clip.ownerUid) match.ownerUid = clip.ownerUid;
+  return match;
+};
+
+/** The earlier clip `clip` duplicates, preferring byte-identical copies over lookalikes. */
+export const findDuplicate = (
+  clip: FingerprintedClip,
+  candidates: ClipDocument[]
+): ClipMatch | undefined => {
+  const others = candidates.filter((candidate) => !isSameUpload(clip, candidate));
+  const exact = clip.contentHash
+    ? others.find((candidate) => candidate.contentHash === clip.contentHash)
+    : undefined;
+  if (exact) {
+    return matchOf(exact, 'exact');
+  }
+  let best: { clip: ClipDocument; distance: number } | undefined;
+  for (const candidate of others) {
+    const distance = fingerprintDistance(clip.fingerprint ?? [], candidate.fingerprint ?? []);
+    if (distance <= SIMILAR_DISTANCE && (!best || distance < best.distance)) {
+      best = { clip: candidate, distance };
+    }
+  }
+  return best ? matchOf(best.clip, 'similar') : undefined;
+};
+
+/** Byte-identical reuse is refused outright; lookalikes only warn the judge. */
+export const duplicateViolation = (match: ClipMatch | undefined): RuleViolation | undefined =>
+  match?.kind === 'exact'
+    ? { violation: 'duplicate_clip', message: 'Clip is a copy of one that was already uploaded' }
+    : undefined;
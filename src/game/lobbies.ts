@@ -0,0 +1,66 @@
+// Public lobbies. A host can list a new game for anyone to join; quick-match seats a player in the
+// lobby that has waited longest. The lobby stops taking players once a second one sits down.
+
+import { MIN_PLAYERS, seatedSlots } from './rules';
+import type { GameDocument, LobbyDocument, LobbySettings, LobbyStatus } from './types';
+
+/** An open lobby nobody joins within this long is closed; its host has likely moved on. */
+export const LOBBY_OPEN_MINUTES = 30;
+
+/** ISO time before which a lobby still open at `ts` has gone stale. */
+export const staleLobbyBefore = (ts: string) =>
+  new Date(Date.parse(ts) - LOBBY_OPEN_MINUTES * 60 * 1000).toISOString();
+
+/** The listing for a game its host just created. */
+export const openLobby = (
+  game: GameDocument,
+  gameId: string,
+  settings: LobbySettings,
+  ts: string
+): LobbyDocument => {
+  const host = game.players.A;
+  const lobby: LobbyDocument = {
+    gameId,
+    code: game.code,
+    hostUid: host?.uid as string,
+    hostName: host?.name as string,
+    status: 'open',
+    allowSpectators: settings.allowSpectators,
+    openedAt: ts,
+  };
+  if (game.word) {
+    lobby.word = game.word;
+  }
+  if (game.series && game.series.bestOf > 1) {
+    lobby.bestOf = game.series.bestOf;
+  }
+  return lobby;
+};
+
+/** Whether quick-match may seat `uid` in the lobby at `ts`: open, fresh, and someone else's. */
+export const isJoinableLobby = (lobby: LobbyDocument, uid: string, ts: string) =>
+  lobby.status === 'open' && lobby.hostUid !== uid && lobby.openedAt > staleLobbyBefore(ts);
+
+/** The lobby's status once `game` has changed. */
+export const lobbyStatus = (lobby: LobbyDocument, game: GameDocument): LobbyStatus => {
+  if (game.winner || lobby.status === 'closed') {
+    return 'closed';
+  }
+  return seatedSlots(game).length >= MIN_PLAYERS ? 'inProgress' : 'open';
+};
+
+/**
+ * What the lobby takes once `game` has changed at `ts`: its new status, and while the game is under
+ * way, `activeAt`. Undefined when nothing changes.
+ */
+export const lobbyUpdate = (
+  lobby: LobbyDocument,
+  game: GameDocument,
+  ts: string
+): Partial<LobbyDocument> | undefined => {
+  const status = lobbyStatus(lobby, game);
+  if (status === 'inProgress') {
+    return status === lobby.status ? { activeAt: ts } : { status, activeAt: ts };
+  }
+  return status === lobby.status ? undefined : { status };
+};
@@ -0,0 +1,155 @@
+import type { GameDocument, GameHistoryEntry, PlayerSlot } from './types';
+
+/**
+ * The one storage layout shared by the recorder, the callables and storage.rules:
+ *
+ * - clips: `games/{gameId}/{uid}/{fileName}`, the uid being the player who shot it
+ * - poster frames: `thumbnails/games/{gameId}/{uid}/{name}.jpg`
+ * - highlight reels: `reels/{gameId}.mp4`
+ *
+ * storage.rules can't import this module; keep its matches and `CLIP_FILE_PATTERN` in step.
+ */
+
+export const CLIP_EXTENSIONS = ['webm', 'mp4', 'mov'] as const;
+export type ClipExtension = (typeof CLIP_EXTENSIONS)[number];
+
+export interface ClipPathParts {
+  gameId: string;
+  /** The shooter, who is also the only user storage.rules lets write there. */
+  uid: string;
+  fileName: string;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+export const CLIP_FILE_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]{0,199}[.](webm|mp4|mov)$/;
+
+export const isClipFileName = (fileName: string) => CLIP_FILE_PATTERN.test(fileName);
+
+const isId = (value: string) => ID_PATTERN.test(value);
+
+/** Throws on ids or file names that storage.rules would refuse, so bad paths fail before upload. */
+export const clipPath = ({ gameId, uid, fileName }: ClipPathParts) => {
+  if (!isId(gameId) || !isId(uid) || !isClipFileName(fileName)) {
+    throw new Error(`Invalid clip path games/${gameId}/${uid}/${fileName}`);
+  }
+  return `games/${gameId}/${uid}/${fileName}`;
+};
+
+/** The folder `uid`'s clips for a game are stored in. */
+export const clipFolder = (gameId: string, uid: string) => `games/${gameId}/${uid}/`;
+
+/** File names sort by recording time and say which phase and seat they were shot for. */
+export const clipFileName = (
+  phase: string,
+  shooter: PlayerSlot,
+  extension: ClipExtension,
+  recordedAt = Date.now()
+) => `${recordedAt}-${phase.toLowerCase()}-${shooter}.${extension}`;
+
+/** Splits a canonical clip path, or returns undefined for anything else. */
+export const parseClipPath = (storagePath: string): ClipPathParts | undefined => {
+  const [root, gameId, uid, fileName, ...rest] = storagePath.split('/');
+  if (
+    root !== 'games' ||
+    rest.length ||
+    !gameId ||
+    !uid ||
+    !fileName ||
+    !isId(gameId) ||
+    !isId(uid) ||
+    !isClipFileName(fileName)
+  ) {
+    return undefined;
+  }
+  return { gameId, uid, fileName };
+};
+
+export const thumbnailPathFor = (storagePath: string) =>
+  `thumbnails/${storagePath.replace(/\.[^/.]+$/, '')}.jpg`;
+
+export const reelPath = (gameId: string) => `reels/${gameId}.mp4`;
+
+/**
+ * Earlier builds wrote clips to `games/{gameId}/{fileName}`, `games/{gameId}/{slot}/{fileName}`
+ * and `challenges/{gameId}/{uid}/{fileName}`. Resolves one of those to its canonical path, using
+ * `shooter` where the old path doesn't say who shot it. Canonical and unknown paths return
+ * undefined.
+ */
+export const canonicalClipPath = (
+  game: GameDocument,
+  gameId: string,
+  storagePath: string,
+  shooter: PlayerSlot | undefined
+) => {
+  const segments = storagePath.split('/');
+  const [root, pathGameId] = segments;
+  const fileName = segments[segments.length - 1];
+  let uid: string | undefined;
+  if (root === 'games' && segments.length === 3) {
+    uid = shooter ? game.players[shooter]?.uid : undefined;
+  } else if (root === 'games' && segments.length === 4) {
+    // A seat letter, unless that seat's player really has it as their uid.
+    const seat = game.players[segments[2] as PlayerSlot];
+    uid = seat && seat.uid !== segments[2] ? seat.uid : undefined;
+  } else if (root === 'challenges' && segments.length === 4) {
+    uid = segments[2];
+  }
+  if (!uid || pathGameId !== gameId || !isId(uid) || !isClipFileName(fileName)) {
+    return undefined;
+  }
+  return clipPath({ gameId, uid, fileName });
+};
+
+export interface ClipPathMove {
+  from: string;
+  to: string;
+}
+
+export interface ClipPathMigration {
+  game: GameDocument;
+  /** Storage objects to copy before the rewritten game is saved, one per distinct old path. */
+  moves: ClipPathMove[];
+}
+
+/** Rewrites every legacy clip path in `current` and `history` to the canonical layout. */
+export const migrateClipPaths = (gameId: string, game: GameDocument): ClipPathMigration => {
+  const moves = new Map<string, string>();
+  const rewrite = (path: string | undefined, shooter: PlayerSlot | undefined) => {
+    if (!path) {
+      return path;
+    }
+    const to = moves.get(path) ?? canonicalClipPath(game, gameId, path, shooter);
+    if (!to) {
+      return path;
+    }
+    moves.set(path, to);
+    return to;
+  };
+
+  // Two-player history entries from before `responder` was recorded: the responder is the other seat.
+  const otherSlot = (slot: PlayerSlot) => {
+    const slots = Object.keys(game.players) as PlayerSlot[];
+    return slots.length === 2 ? slots.find((other) => other !== slot) : undefined;
+  };
+
+  const history = game.history.map((entry) => {
+    const next: GameHistoryEntry = { ...entry };
+    const setPath = rewrite(entry.setPath, entry.by);
+    const respPath = rewrite(entry.respPath, entry.responder ?? otherSlot(entry.by));
+    if (setPath) next.setPath = setPath;
+    if (respPath) next.respPath = respPath;
+    return next;
+  });
+
+  // The setter holds the turn; `current.by` is whoever is shooting or judged right now.
+  const current = { ...game.current };
+  const setVideoPath = rewrite(current.setVideoPath, game.turn);
+  const responseVideoPath = rewrite(current.responseVideoPath, current.by);
+  if (setVideoPath) current.setVideoPath = setVideoPath;
+  if (responseVideoPath) current.responseVideoPath = responseVideoPath;
+
+  return {
+    game: { ...game, current, history },
+    moves: Array.from(moves, ([from, to]) => ({ from, to })),
+  };
+};
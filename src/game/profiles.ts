@@ -0,0 +1,51 @@
+// Skater profiles. A handle is a profile's public name and its address at `/u/{handle}`; the
+// callables reserve handles so no two profiles share one, and keep the stats as games finish.
+
+import { seatedSlots } from './rules';
+import type { GameDocument, ProfileStats } from './types';
+
+export const MIN_HANDLE_LENGTH = 3;
+export const MAX_HANDLE_LENGTH = 20;
+export const MAX_BIO_LENGTH = 160;
+const MAX_AVATAR_URL_LENGTH = 500;
+const HANDLE_PATTERN = new RegExp(`^[a-z0-9_]{${MIN_HANDLE_LENGTH},${MAX_HANDLE_LENGTH}}$`);
+
+export const EMPTY_STATS: ProfileStats = { gamesPlayed: 0, gamesWon: 0 };
+
+/**
+ * Lowercases a handle and drops a leading `@`. Returns `undefined` unless what is left is 3-20
+ * letters, digits or underscores.
+ */
+export const normalizeHandle = (value: string) => {
+  const handle = value.trim().replace(/^@/, '').toLowerCase();
+  return HANDLE_PATTERN.test(handle) ? handle : undefined;
+};
+
+/** Avatars are linked, not uploaded: any https URL short enough to store. */
+export const isAvatarUrl = (value: string) => {
+  if (value.length > MAX_AVATAR_URL_LENGTH) {
+    return false;
+  }
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/** Uids of everyone seated, in join order, for `GameDocument.playerUids`. */
+export const playerUids = (game: GameDocument) =>
+  seatedSlots(game).map((slot) => game.players[slot]?.uid as string);
+
+export type GameOutcome = 'won' | 'lost' | 'playing';
+
+export const gameOutcome = (game: GameDocument, uid: string): GameOutcome => {
+  if (!game.winner) {
+    return 'playing';
+  }
+  return game.players[game.winner]?.uid === uid ? 'won' : 'lost';
+};
+
+/** Wins and losses, e.g. `12-4`. */
+export const formatRecord = (stats: ProfileStats) =>
+  `${stats.gamesWon}-${stats.gamesPlayed - stats.gamesWon}`;
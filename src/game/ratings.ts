@@ -0,0 +1,95 @@
+// Player ratings. Elo with a larger step while a player is provisional, so new players find their
+// level in a handful of games, Glicko-style. A finished game counts as the winner beating every
+// other seat; the callables settle it in the transaction that sets `winner`.
+
+import { seatedSlots } from './rules';
+import type {
+  GameDocument,
+  PlayerSlot,
+  RatingChange,
+  RatingHistoryEntry,
+  RecentStanding,
+} from './types';
+
+export const INITIAL_RATING = 1200;
+/** Games a player is provisional for. */
+export const PROVISIONAL_GAMES = 10;
+const PROVISIONAL_K = 48;
+const ESTABLISHED_K = 24;
+/** The leaderboard's rolling view covers games finished in this many days. */
+export const RECENT_WINDOW_DAYS = 30;
+
+export interface PlayerRating {
+  rating: number;
+  /** Rated games played so far. */
+  ratedGames: number;
+}
+
+export const UNRATED: PlayerRating = { rating: INITIAL_RATING, ratedGames: 0 };
+
+/** Chance the first player beats the second. */
+export const expectedScore = (rating: number, opponent: number) =>
+  1 / (1 + 10 ** ((opponent - rating) / 400));
+
+const kFactor = ({ ratedGames }: PlayerRating) =>
+  ratedGames < PROVISIONAL_GAMES ? PROVISIONAL_K : ESTABLISHED_K;
+
+/**
+ * Rating changes for every seat of a finished game, from each player's rating going in. Each seat
+ * plays one pairing against the winner, weighted so a six-player game moves ratings about as much
+ * as a head-to-head one. Empty while the game is in play.
+ */
+export const rateGame = (
+  game: GameDocument,
+  ratings: Partial<Record<PlayerSlot, PlayerRating>>
+): Partial<Record<PlayerSlot, RatingChange>> => {
+  const winner = game.winner;
+  if (!winner) {
+    return {};
+  }
+  const seats = seatedSlots(game);
+  const rated = (slot: PlayerSlot) => ratings[slot] ?? UNRATED;
+  const weight = 1 / Math.max(seats.length - 1, 1);
+  const deltas: Partial<Record<PlayerSlot, number>> = { [winner]: 0 };
+  for (const slot of seats) {
+    if (slot === winner) {
+      continue;
+    }
+    const loser = rated(slot);
+    const champion = rated(winner);
+    const upset = 1 - expectedScore(champion.rating, loser.rating);
+    deltas[winner] = (deltas[winner] ?? 0) + kFactor(champion) * upset * weight;
+    deltas[slot] = -kFactor(loser) * upset * weight;
+  }
+  const changes: Partial<Record<PlayerSlot, RatingChange>> = {};
+  for (const slot of seats) {
+    const before = rated(slot).rating;
+    changes[slot] = { before, after: Math.round(before + (deltas[slot] ?? 0)) };
+  }
+  return changes;
+};
+
+/** ISO start of the rolling window ending at `now`. */
+export const recentWindowStart = (now: string) =>
+  new Date(Date.parse(now) - RECENT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/** Sums the entries inside the window ending at `now`; `undefined` when none are. */
+export const recentStanding = (
+  entries: RatingHistoryEntry[],
+  now: string
+): RecentStanding | undefined => {
+  const start = recentWindowStart(now);
+  const recent = entries.filter((entry) => entry.ts >= start);
+  if (!recent.length) {
+    return undefined;
+  }
+  return {
+    ratingChange: recent.reduce((sum, entry) => sum + entry.after - entry.before, 0),
+    gamesPlayed: recent.length,
+    gamesWon: recent.filter((entry) => entry.won).length,
+  };
+};
+
+/** A change as shown to players, e.g. `+12` or `−8`. */
+export const formatRatingDelta = ({ before, after }: RatingChange) =>
+  `${after >= before ? '+' : '−'}${Math.abs(after - before)}`;
@@ -0,0 +1,74 @@
+import { formatWord, gameWord, seatedSlots } from './rules';
+import type { GameDocument, GameHistoryEntry, PlayerSlot } from './types';
+
+/** How long `makeReel` may render; the client waits as long before giving up on the call. */
+export const REEL_RENDER_SECONDS = 540;
+
+/**
+ * Whether a makeReel call is still rendering the game's reel at `ts`. A claim older than the
+ * function may run died with its call, so the next one takes over.
+ */
+export const isRenderingReel = (game: GameDocument, ts: string) =>
+  !!game.reelRenderingAt &&
+  Date.parse(game.reelRenderingAt) + REEL_RENDER_SECONDS * 1000 > Date.parse(ts);
+
+export type ReelSegment = { type: 'card'; lines: string[] } | { type: 'clip'; storagePath: string };
+
+const resultLine = (entry: GameHistoryEntry) => {
+  switch (entry.result) {
+    case 'declined_set':
+      return 'Set declined';
+    case 'approved_set':
+      return 'Set approved';
+    case 'landed':
+      return 'Landed';
+    case 'failed':
+      return entry.letter
+        ? `Missed, takes ${entry.letter}${entry.eliminated ? ' and is out' : ''}`
+        : 'Missed';
+  }
+};
+
+/**
+ * Running order of a finished game's highlight reel: an opening card, then a title card before
+ * every set and response clip in play order, and the winner to close. A set that several players
+ * responded to is only shown once.
+ */
+export const reelSegments = (game: GameDocument): ReelSegment[] => {
+  const nameOf = (slot: PlayerSlot) => game.players[slot]?.name ?? `Player ${slot}`;
+  const segments: ReelSegment[] = [
+    {
+      type: 'card',
+      lines: [seatedSlots(game).map(nameOf).join(' vs '), `Game of ${formatWord(gameWord(game))}`],
+    },
+  ];
+  const shown = new Set<string>();
+  let trick = 0;
+
+  game.history.forEach((entry) => {
+    const isSet = entry.result === 'declined_set' || entry.result === 'approved_set';
+    if (isSet) {
+      trick += 1;
+    }
+    const clips = [entry.setPath, entry.respPath].filter(
+      (path): path is string => !!path && !shown.has(path)
+    );
+    const heading =
+      isSet || !entry.responder
+        ? `${nameOf(entry.by)} sets`
+        : `${nameOf(entry.responder)} responds`;
+    segments.push({
+      type: 'card',
+      lines: [`Trick ${Math.max(trick, 1)}`, heading, resultLine(entry)],
+    });
+    clips.forEach((storagePath) => {
+      shown.add(storagePath);
+      segments.push({ type: 'clip', storagePath });
+    });
+  });
+
+  if (game.winner) {
+    segments.push({ type: 'card', lines: [`${nameOf(game.winner)} wins`] });
+  }
+  return segments;
+};
@@ -0,0 +1,522 @@
+// Pure S.K.8 rules shared by the client store (optimistic UI) and the game-engine callables
+// (authoritative validation). Nothing in here may touch Firebase, the DOM or the clock.
+// The letters to collect default to S.K.8 but are configurable per game through `word`.
+
+import type {
+  ClipLengthSettings,
+  GameCurrentState,
+  GameDocument,
+  GameHistoryEntry,
+  GamePhase,
+  HistoryResult,
+  HouseRules,
+  PlayerSlot,
+  PlayerState,
+  SeriesState,
+  ShotClockSettings,
+} from './types';
+
+export const DEFAULT_WORD = 'SK8';
+export const WORD_PRESETS = ['SK8', 'SKATE'];
+
+const WORD_PATTERN = /^[A-Z0-9]{2,10}$/;
+
+/** Uppercases a chosen word and drops separators (`s.k.a.t.e` -> `SKATE`); `undefined` if unusable. */
+export const normalizeWord = (input: string) => {
+  const word = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return WORD_PATTERN.test(word) ? word : undefined;
+};
+
+export const gameWord = (game: Pick<GameDocument, 'word'>) => game.word ?? DEFAULT_WORD;
+
+export const formatWord = (word: string) => word.split('').join('.');
+
+export const DEFAULT_SHOT_CLOCK: ShotClockSettings = {
+  recordSeconds: 24 * 60 * 60,
+  judgeSeconds: 12 * 60 * 60,
+  defaultVerdict: 'approve',
+};
+
+export const gameShotClock = (game: Pick<GameDocument, 'shotClock'>) =>
+  game.shotClock ?? DEFAULT_SHOT_CLOCK;
+
+const isRecordingPhase = (phase: GamePhase) => phase === 'SET_RECORD' || phase === 'RESP_RECORD';
+
+/** Restarts the shot clock for the game's current phase, or clears it once there is a winner. */
+export const startShotClock = (game: GameDocument, ts: string): GameDocument => {
+  const next = { ...game };
+  if (next.winner) {
+    delete next.deadline;
+    return next;
+  }
+  const clock = gameShotClock(game);
+  const seconds = isRecordingPhase(game.phase) ? clock.recordSeconds : clock.judgeSeconds;
+  next.deadline = new Date(Date.parse(ts) + seconds * 1000).toISOString();
+  return next;
+};
+
+/**
+ * When the current phase began, read back from its shot clock. Undefined while the clock isn't
+ * running: before a second player joins, and after a win.
+ */
+export const phaseStartedAt = (game: GameDocument) => {
+  if (!game.deadline) {
+    return undefined;
+  }
+  const clock = gameShotClock(game);
+  const seconds = isRecordingPhase(game.phase) ? clock.recordSeconds : clock.judgeSeconds;
+  return new Date(Date.parse(game.deadline) - seconds * 1000).toISOString();
+};
+
+export const isExpired = (game: GameDocument, ts: string) =>
+  !game.winner && !!game.deadline && Date.parse(game.deadline) <= Date.parse(ts);
+
+export const DEFAULT_CLIP_LENGTH: ClipLengthSettings = { setSeconds: 15, responseSeconds: 15 };
+export const CLIP_LENGTH_PRESETS = [10, 15, 30, 60];
+/** Slack for the recorder stopping a moment after the limit. */
+export const CLIP_LENGTH_TOLERANCE_MS = 1000;
+
+export const gameClipLength = (game: Pick<GameDocument, 'clipLength'>) =>
+  game.clipLength ?? DEFAULT_CLIP_LENGTH;
+
+/** Longest clip, in milliseconds, the shooter may record in a recording phase. */
+export const clipLimitMs = (game: GameDocument, phase: GamePhase = game.phase) => {
+  const { setSeconds, responseSeconds } = gameClipLength(game);
+  return (phase === 'RESP_RECORD' ? responseSeconds : setSeconds) * 1000;
+};
+
+// Sets are one take unless the host allows retakes.
+export const DEFAULT_HOUSE_RULES: HouseRules = { setRetakes: false };
+
+export const gameHouseRules = (game: Pick<GameDocument, 'houseRules'>) =>
+  game.houseRules ?? DEFAULT_HOUSE_RULES;
+
+/** Whether the shooter may discard a recorded take and try again in the current phase. */
+export const canRetake = (game: GameDocument, phase: GamePhase = game.phase) =>
+  phase === 'RESP_RECORD' || (phase === 'SET_RECORD' && gameHouseRules(game).setRetakes);
+
+export type Move =
+  | { type: 'submitSet'; storagePath: string; durationMs?: number }
+  | { type: 'judgeSet'; approve: boolean }
+  | { type: 'selfFailSet' }
+  | { type: 'submitResponse'; storagePath: string; durationMs?: number }
+  | { type: 'judgeResponse'; approve: boolean }
+  | { type: 'selfFailResponse' };
+
+export type MoveType = Move['type'];
+
+export type RuleViolationCode =
+  | 'game_over'
+  | 'waiting_for_opponent'
+  | 'not_a_player'
+  | 'wrong_phase'
+  | 'not_shooter'
+  | 'not_judge'
+  | 'not_expired'
+  | 'game_started'
+  | 'game_full'
+  | 'game_in_progress'
+  | 'clip_too_long'
+  | 'unattested_clip'
+  | 'duplicate_clip'
+  | 'retake_not_allowed'
+  | 'reel_rendering'
+  | 'not_challenged'
+  | 'challenge_closed';
+
+export interface RuleViolation {
+  violation: RuleViolationCode;
+  message: string;
+}
+
+type Actor = 'shooter' | 'judge';
+
+const moveRules: Record<MoveType, { phase: GamePhase; actor: Actor }> = {
+  submitSet: { phase: 'SET_RECORD', actor: 'shooter' },
+  selfFailSet: { phase: 'SET_RECORD', actor: 'shooter' },
+  judgeSet: { phase: 'SET_JUDGE', actor: 'judge' },
+  submitResponse: { phase: 'RESP_RECORD', actor: 'shooter' },
+  selfFailResponse: { phase: 'RESP_RECORD', actor: 'shooter' },
+  judgeResponse: { phase: 'RESP_JUDGE', actor: 'judge' },
+};
+
+export const isRuleViolation = (value: GameDocument | RuleViolation): value is RuleViolation =>
+  'violation' in value;
+
+export const PLAYER_SLOTS: PlayerSlot[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = PLAYER_SLOTS.length;
+
+/** Every seated player, eliminated or not, in join order. */
+export const seatedSlots = (game: GameDocument) =>
+  PLAYER_SLOTS.filter((slot) => game.players[slot]);
+
+/** Players still in the game, in setter rotation order. */
+export const playerOrder = (game: GameDocument) =>
+  game.order ?? seatedSlots(game).filter((slot) => !game.players[slot]?.eliminated);
+
+export const slotForUid = (game: GameDocument, uid: string): PlayerSlot | undefined =>
+  PLAYER_SLOTS.find((slot) => game.players[slot]?.uid === uid);
+
+/** The player after `slot` in the rotation, wrapping around. */
+export const nextSlot = (game: GameDocument, slot: PlayerSlot): PlayerSlot => {
+  const order = playerOrder(game);
+  return order[(order.indexOf(slot) + 1) % order.length];
+};
+
+/** Everyone who must match the setter's trick, starting with the player after the setter. */
+export const respondersFor = (game: GameDocument): PlayerSlot[] => {
+  const order = playerOrder(game);
+  const start = order.indexOf(game.turn) + 1;
+  return [...order.slice(start), ...order.slice(0, start)].filter((slot) => slot !== game.turn);
+};
+
+/** `current.by` always names the player holding the camera. */
+export const shooterOf = (game: GameDocument): PlayerSlot => game.current.by;
+
+/** Sets are judged by the next player in the rotation; every response is judged by the setter. */
+export const judgeOf = (game: GameDocument): PlayerSlot =>
+  game.phase === 'SET_RECORD' || game.phase === 'SET_JUDGE' ? nextSlot(game, game.turn) : game.turn;
+
+const violation = (code: RuleViolationCode, message: string): RuleViolation => ({
+  violation: code,
+  message,
+});
+
+/** Returns why `actor` may not make a move of `type` right now, or `undefined` if they may. */
+export const checkMove = (
+  game: GameDocument,
+  actor: PlayerSlot | undefined,
+  type: MoveType
+): RuleViolation | undefined => {
+  const rule = moveRules[type];
+  if (game.winner) {
+    return violation('game_over', 'Game is already over');
+  }
+  if (playerOrder(game).length < MIN_PLAYERS) {
+    return violation('waiting_for_opponent', 'Waiting for an opponent to join');
+  }
+  if (!actor) {
+    return violation('not_a_player', 'You are not playing in this game');
+  }
+  if (game.phase !== rule.phase) {
+    return violation('wrong_phase', `Game is in ${game.phase}, expected ${rule.phase}`);
+  }
+  if (rule.actor === 'shooter' && actor !== shooterOf(game)) {
+    return violation('not_shooter', 'Only the current shooter can do that');
+  }
+  if (rule.actor === 'judge' && actor !== judgeOf(game)) {
+    return violation('not_judge', 'Only the judge can do that');
+  }
+  return undefined;
+};
+
+export const canMove = (game: GameDocument, actor: PlayerSlot | undefined, type: MoveType) =>
+  !checkMove(game, actor, type);
+
+type ClipFields = Omit<GameCurrentState, 'by' | 'queue'>;
+
+const setClip = ({ setVideoPath, setDurationMs }: GameCurrentState): ClipFields => ({
+  setVideoPath,
+  setDurationMs,
+});
+
+// Firestore rejects `undefined`, so optional fields are only set when present.
+const current = (by: PlayerSlot, clips: ClipFields = {}, queue: PlayerSlot[] = []) => {
+  const next: GameCurrentState = { by };
+  if (clips.setVideoPath) next.setVideoPath = clips.setVideoPath;
+  if (clips.setDurationMs !== undefined) next.setDurationMs = clips.setDurationMs;
+  if (clips.responseVideoPath) next.responseVideoPath = clips.responseVideoPath;
+  if (clips.responseDurationMs !== undefined) next.responseDurationMs = clips.responseDurationMs;
+  if (queue.length) next.queue = queue;
+  return next;
+};
+
+const historyEntry = (
+  game: GameDocument,
+  result: HistoryResult,
+  ts: string,
+  clips: ClipFields = {}
+) => {
+  const entry: GameHistoryEntry = { by: game.turn, result, ts };
+  if (result === 'landed' || result === 'failed') entry.responder = game.current.by;
+  if (clips.setVideoPath) entry.setPath = clips.setVideoPath;
+  if (clips.setDurationMs !== undefined) entry.setDurationMs = clips.setDurationMs;
+  if (clips.responseVideoPath) entry.respPath = clips.responseVideoPath;
+  if (clips.responseDurationMs !== undefined) entry.respDurationMs = clips.responseDurationMs;
+  return entry;
+};
+
+// A missed set passes the turn to the next player in the rotation, who starts a fresh round.
+const passTurn = (game: GameDocument, entry: GameHistoryEntry): GameDocument => {
+  const setter = nextSlot(game, game.turn);
+  return {
+    ...game,
+    turn: setter,
+    phase: 'SET_RECORD',
+    current: current(setter),
+    history: [...game.history, entry],
+  };
+};
+
+// An approved set has to be matched by every other remaining player, one after another.
+const startResponses = (game: GameDocument, entry: GameHistoryEntry): GameDocument => {
+  const [first, ...queue] = respondersFor(game);
+  return {
+    ...game,
+    phase: 'RESP_RECORD',
+    current: current(first, setClip(game.current), queue),
+    history: [...game.history, entry],
+  };
+};
+
+/**
+ * Settles the current response. A miss earns the responder the next letter, and completing the
+ * word knocks them out of the rotation. The next queued responder goes after that; once the queue
+ * is empty the setter keeps the turn. The last player standing wins.
+ */
+const finishResponse = (
+  game: GameDocument,
+  landed: boolean,
+  entry: GameHistoryEntry
+): GameDocument => {
+  const setter = game.turn;
+  const responder = game.current.by;
+  const next: GameDocument = { ...game, history: [...game.history, entry] };
+
+  const player = game.players[responder];
+  if (!landed && player) {
+    const word = gameWord(game);
+    const letter = word[player.letters.length];
+    const letters = player.letters + letter;
+    const eliminated = letters.length >= word.length;
+    next.players = {
+      ...game.players,
+      [responder]: eliminated ? { ...player, letters, eliminated } : { ...player, letters },
+    };
+    next.history = [
+      ...game.history,
+      eliminated ? { ...entry, letter, eliminated } : { ...entry, letter },
+    ];
+    if (eliminated) {
+      next.order = playerOrder(game).filter((slot) => slot !== responder);
+    }
+  }
+
+  const remaining = playerOrder(next);
+  if (remaining.length < MIN_PLAYERS) {
+    return { ...next, phase: 'SET_RECORD', current: current(setter), winner: remaining[0] };
+  }
+  const [upNext, ...queue] = game.current.queue ?? [];
+  if (upNext) {
+    return {
+      ...next,
+      phase: 'RESP_RECORD',
+      current: current(upNext, setClip(game.current), queue),
+    };
+  }
+  return { ...next, phase: 'SET_RECORD', current: current(setter) };
+};
+
+const transition = (game: GameDocument, move: Move, ts: string): GameDocument => {
+  const set = setClip(game.current);
+
+  switch (move.type) {
+    case 'submitSet':
+      return {
+        ...game,
+        phase: 'SET_JUDGE',
+        current: current(game.turn, {
+          setVideoPath: move.storagePath,
+          setDurationMs: move.durationMs,
+        }),
+      };
+    case 'judgeSet':
+      if (!move.approve) {
+        return passTurn(game, historyEntry(game, 'declined_set', ts, set));
+      }
+      return startResponses(game, historyEntry(game, 'approved_set', ts, set));
+    case 'selfFailSet':
+      return passTurn(game, historyEntry(game, 'declined_set', ts));
+    case 'submitResponse':
+      return {
+        ...game,
+        phase: 'RESP_JUDGE',
+        current: current(
+          game.current.by,
+          { ...set, responseVideoPath: move.storagePath, responseDurationMs: move.durationMs },
+          game.current.queue
+        ),
+      };
+    case 'judgeResponse':
+      return finishResponse(
+        game,
+        move.approve,
+        historyEntry(game, move.approve ? 'landed' : 'failed', ts, game.current)
+      );
+    case 'selfFailResponse':
+      return finishResponse(game, false, historyEntry(game, 'failed', ts, set));
+  }
+};
+
+/**
+ * Applies `move` on behalf of `actor` and returns the next game state, or the rule it breaks.
+ * `ts` stamps any history entry the move produces and restarts the shot clock.
+ */
+export const applyMove = (
+  game: GameDocument,
+  actor: PlayerSlot | undefined,
+  move: Move,
+  ts: string
+): GameDocument | RuleViolation => {
+  const rejected = checkMove(game, actor, move.type);
+  if (rejected) {
+    return rejected;
+  }
+  if (
+    (move.type === 'submitSet' || move.type === 'submitResponse') &&
+    move.durationMs !== undefined &&
+    move.durationMs > clipLimitMs(game) + CLIP_LENGTH_TOLERANCE_MS
+  ) {
+    return violation('clip_too_long', `Clips are limited to ${clipLimitMs(game) / 1000} seconds`);
+  }
+
+  return startShotClock(transition(game, move, ts), ts);
+};
+
+/**
+ * Seats a new player in the next free slot and appends them to the rotation. Players can only join
+ * before the first set is submitted. The shot clock starts once a second player is seated.
+ */
+export const addPlayer = (
+  game: GameDocument,
+  uid: string,
+  name: string,
+  ts: string
+): GameDocument | RuleViolation => {
+  if (game.winner) {
+    return violation('game_over', 'Game is already over');
+  }
+  if (game.history.length || game.phase !== 'SET_RECORD') {
+    return violation('game_started', 'Game has already started');
+  }
+  const slot = PLAYER_SLOTS.find((candidate) => !game.players[candidate]);
+  if (!slot) {
+    return violation('game_full', `Games are limited to ${MAX_PLAYERS} players`);
+  }
+  const next: GameDocument = {
+    ...game,
+    players: { ...game.players, [slot]: { uid, name, letters: '' } },
+    order: [...playerOrder(game), slot],
+  };
+  return next.deadline ? next : startShotClock(next, ts);
+};
+
+/**
+ * The move the shot clock makes when the current phase expires: recording phases self-fail and
+ * judging phases fall back to the game's default verdict.
+ */
+export const timeoutMove = (game: GameDocument): { actor: PlayerSlot; move: Move } => {
+  const approve = gameShotClock(game).defaultVerdict === 'approve';
+  switch (game.phase) {
+    case 'SET_RECORD':
+      return { actor: shooterOf(game), move: { type: 'selfFailSet' } };
+    case 'SET_JUDGE':
+      return { actor: judgeOf(game), move: { type: 'judgeSet', approve } };
+    case 'RESP_RECORD':
+      return { actor: shooterOf(game), move: { type: 'selfFailResponse' } };
+    case 'RESP_JUDGE':
+      return { actor: judgeOf(game), move: { type: 'judgeResponse', approve } };
+  }
+};
+
+/** Resolves an expired phase on behalf of whoever let the clock run out. */
+export const applyTimeout = (game: GameDocument, ts: string): GameDocument | RuleViolation => {
+  if (!isExpired(game, ts)) {
+    return violation('not_expired', 'The shot clock has not run out');
+  }
+  const { actor, move } = timeoutMove(game);
+  const next = applyMove(game, actor, move, ts);
+  if (isRuleViolation(next)) {
+    return next;
+  }
+  const history = [...next.history];
+  history[history.length - 1] = { ...history[history.length - 1], timedOut: true };
+  return { ...next, history };
+};
+
+export const SERIES_LENGTHS = [1, 3, 5, 7];
+
+export const winsNeeded = (bestOf: number) => Math.floor(bestOf / 2) + 1;
+
+/** Series wins by seat, counting this game once it has a winner. */
+export const seriesScore = (game: GameDocument): Partial<Record<PlayerSlot, number>> => {
+  const wins = { ...game.series?.wins };
+  if (game.winner) {
+    wins[game.winner] = (wins[game.winner] ?? 0) + 1;
+  }
+  return wins;
+};
+
+/** The seat that has clinched the series, if any. Games without a series are a best of one. */
+export const seriesWinner = (game: GameDocument): PlayerSlot | undefined => {
+  const needed = winsNeeded(game.series?.bestOf ?? 1);
+  const score = seriesScore(game);
+  return PLAYER_SLOTS.find((slot) => (score[slot] ?? 0) >= needed);
+};
+
+/**
+ * Builds the rematch for a finished game: same players in the same seats with clean letters, and
+ * the first set goes to the player after whoever set first last time. The rematch continues the
+ * series until someone clinches it, then starts a fresh series of the same length.
+ */
+export const rematchGame = (
+  game: GameDocument,
+  ids: { gameId: string; rematchId: string; code: string },
+  ts: string
+): GameDocument | RuleViolation => {
+  if (!game.winner) {
+    return violation('game_in_progress', 'Finish this game before calling a rematch');
+  }
+  const seated = seatedSlots(game);
+  const opener = game.history[0]?.by ?? game.turn;
+  const turn = seated[(seated.indexOf(opener) + 1) % seated.length];
+  const bestOf = game.series?.bestOf ?? 1;
+  const series: SeriesState = seriesWinner(game)
+    ? { id: ids.rematchId, bestOf, game: 1, wins: {} }
+    : {
+        id: game.series?.id ?? ids.gameId,
+        bestOf,
+        game: (game.series?.game ?? 1) + 1,
+        wins: seriesScore(game),
+      };
+  const players: GameDocument['players'] = {};
+  for (const slot of seated) {
+    const { uid, name } = game.players[slot] as PlayerState;
+    players[slot] = { uid, name, letters: '' };
+  }
+  const next: GameDocument = {
+    code: ids.code,
+    turn,
+    phase: 'SET_RECORD',
+    players,
+    order: seated,
+    current: current(turn),
+    history: [],
+    series,
+    rematchOf: ids.gameId,
+  };
+  if (game.word) {
+    next.word = game.word;
+  }
+  if (game.shotClock) {
+    next.shotClock = game.shotClock;
+  }
+  if (game.clipLength) {
+    next.clipLength = game.clipLength;
+  }
+  if (game.houseRules) {
+    next.houseRules = game.houseRules;
+  }
+  return startShotClock(next, ts);
+};
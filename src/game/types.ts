@@ -0,0 +1,247 @@
+/** Seats in join order. The setter rotation follows `GameDocument.order`. */
+export type PlayerSlot = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+export type GamePhase = 'SET_RECORD' | 'SET_JUDGE' | 'RESP_RECORD' | 'RESP_JUDGE';
+
+export type Verdict = 'approve' | 'decline';
+
+export interface ShotClockSettings {
+  recordSeconds: number;
+  judgeSeconds: number;
+  /** Applied when a judge lets SET_JUDGE or RESP_JUDGE run out. */
+  defaultVerdict: Verdict;
+}
+
+/** Recording stops automatically once a clip reaches its phase's limit. */
+export interface ClipLengthSettings {
+  setSeconds: number;
+  responseSeconds: number;
+}
+
+/** Table rules the host can loosen for their game. */
+export interface HouseRules {
+  /** Lets the setter throw a take away and record the set again before submitting. */
+  setRetakes: boolean;
+}
+
+/** Optional settings a host picks when creating a game; omitted ones use the rules' defaults. */
+export interface GameSettings {
+  word?: string;
+  shotClock?: Partial<ShotClockSettings>;
+  clipLength?: Partial<ClipLengthSettings>;
+  houseRules?: Partial<HouseRules>;
+  /** Games in the series; one of `SERIES_LENGTHS`. */
+  bestOf?: number;
+  /** Lists the game in the public lobby browser; omitted games are joined by code only. */
+  lobby?: LobbySettings;
+}
+
+export interface LobbySettings {
+  /** Keeps the game listed for anyone to watch once it is under way. */
+  allowSpectators: boolean;
+}
+
+export interface PlayerState {
+  uid: string;
+  name: string;
+  letters: string;
+  /** Set once the player has collected the whole word; they stay on the scoreboard. */
+  eliminated?: boolean;
+}
+
+export interface GameCurrentState {
+  by: PlayerSlot;
+  setVideoPath?: string;
+  setDurationMs?: number;
+  responseVideoPath?: string;
+  responseDurationMs?: number;
+  /** Responders still waiting to match an approved set, after `by`. */
+  queue?: PlayerSlot[];
+}
+
+export type HistoryResult = 'declined_set' | 'approved_set' | 'landed' | 'failed';
+
+export interface GameHistoryEntry {
+  /** The setter. */
+  by: PlayerSlot;
+  /** The player who attempted the response, for `landed` and `failed` entries. */
+  responder?: PlayerSlot;
+  setPath?: string;
+  /** Recorded length of the set clip, as measured by the shooter's recorder. */
+  setDurationMs?: number;
+  respPath?: string;
+  respDurationMs?: number;
+  result: HistoryResult;
+  /** Letter the responder picked up on a failed response. */
+  letter?: string;
+  /** Set when that letter completed the word and knocked the responder out. */
+  eliminated?: boolean;
+  /** Set when the shot clock, not a player, resolved this entry. */
+  timedOut?: boolean;
+  ts: string;
+}
+
+/** Links rematches into a best-of-N series. Every game in the series carries a copy. */
+export interface SeriesState {
+  /** Id of the series' first game. */
+  id: string;
+  bestOf: number;
+  /** 1-based position of this game in the series. */
+  game: number;
+  /** Games won before this one, by seat. Rematches keep every player in the same seat. */
+  wins: Partial<Record<PlayerSlot, number>>;
+}
+
+export interface GameDocument {
+  code: string;
+  turn: PlayerSlot;
+  phase: GamePhase;
+  /** Letters a player collects to lose, e.g. `SK8` or `SKATE`. Older games play S.K.8. */
+  word?: string;
+  shotClock?: ShotClockSettings;
+  /** Older games use the rules' default clip length. */
+  clipLength?: ClipLengthSettings;
+  houseRules?: HouseRules;
+  /** ISO time the current phase expires; unset until a second player joins and after a win. */
+  deadline?: string;
+  winner?: PlayerSlot;
+  players: Partial<Record<PlayerSlot, PlayerState>>;
+  /** Players still in the game, in setter rotation order. Older two-player games omit it. */
+  order?: PlayerSlot[];
+  current: GameCurrentState;
+  history: GameHistoryEntry[];
+  /** Older games without one are a single-game series. */
+  series?: SeriesState;
+  /** Id of the finished game this one is a rematch of. */
+  rematchOf?: string;
+  /** Set on a finished game once someone calls a rematch, so everyone can follow. */
+  rematch?: { gameId: string; code: string };
+  /** Highlight reel of the finished game, once a player has asked for one. */
+  reel?: ReelState;
+  /** ISO time a makeReel call claimed the render; cleared once it links the reel or fails. */
+  reelRenderingAt?: string;
+  /** Uids of every seated player, so a profile can list their games. Older games omit it. */
+  playerUids?: string[];
+  /** Each seat's rating before and after, set in the same write as `winner`. */
+  ratings?: Partial<Record<PlayerSlot, RatingChange>>;
+}
+
+export interface RatingChange {
+  before: number;
+  after: number;
+}
+
+export interface ReelState {
+  storagePath: string;
+  url: string;
+}
+
+/** Written to /clips by the storage-finalize pipeline for every clip uploaded to a game. */
+export interface ClipDocument {
+  gameId: string;
+  /** Matches `setPath` / `respPath` on the history entry the clip belongs to. */
+  storagePath: string;
+  /** The uid folder the clip was uploaded to, which storage.rules pins to the uploader. */
+  ownerUid?: string;
+  contentType: string;
+  sizeBytes: number;
+  durationMs: number;
+  /** Poster frame in Storage, readable by the clip's audience; resolve it with `resolveClipUrl`. */
+  thumbPath: string;
+  /** MD5 of the bytes as hex, the same digest Storage reports as `md5Hash`. */
+  contentHash?: string;
+  /** Perceptual hashes of frames sampled across the clip; see src/game/duplicates.ts. */
+  fingerprint?: string[];
+  /** Banded slices of `fingerprint` for finding lookalike clips with one query. */
+  fingerprintKeys?: string[];
+  /** Set when the clip repeats an earlier upload by anyone; the judge is warned about it. */
+  duplicateOf?: ClipMatch;
+}
+
+/** An earlier clip a new upload matches. */
+export interface ClipMatch {
+  storagePath: string;
+  gameId: string;
+  ownerUid?: string;
+  /** `exact`: the same bytes. `similar`: the same footage, perhaps trimmed or re-encoded. */
+  kind: 'exact' | 'similar';
+}
+
+/** Counted by the callables whenever a game the player sat in finishes. */
+export interface ProfileStats {
+  gamesPlayed: number;
+  gamesWon: number;
+}
+
+/** Stored at `/users/{uid}`. Created on first sign-in; only the profile callables write it. */
+export interface UserProfile {
+  uid: string;
+  /** Unique, lowercase; reserved in `/handles/{handle}` and shown at `/u/{handle}`. */
+  handle: string;
+  bio?: string;
+  avatarUrl?: string;
+  stats: ProfileStats;
+  /** Set once the player has finished a rated game; see src/game/ratings.ts. */
+  rating?: number;
+  ratedGames?: number;
+  /** Games finished in the leaderboard's rolling window; dropped once none are left in it. */
+  recent?: RecentStanding;
+}
+
+export interface RecentStanding {
+  /** Net rating change over the window, which the rolling leaderboard ranks by. */
+  ratingChange: number;
+  gamesPlayed: number;
+  gamesWon: number;
+}
+
+/** One finished game at `/users/{uid}/ratingHistory/{gameId}`. */
+export interface RatingHistoryEntry extends RatingChange {
+  gameId: string;
+  won: boolean;
+  /** ISO time the game finished. */
+  ts: string;
+}
+
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined';
+
+/**
+ * Stored at `/challenges/{id}` and visible only to the two skaters; the challenge callables make
+ * every write. Handles are copied in so the inbox needs no profile lookups.
+ */
+export interface ChallengeDocument {
+  challengerUid: string;
+  challengerHandle: string;
+  opponentUid: string;
+  opponentHandle: string;
+  /** A trick the challenger calls out. */
+  trick?: string;
+  status: ChallengeStatus;
+  /** ISO time a pending challenge lapses; the cleanup job deletes every challenge after it. */
+  expiresAt: string;
+  /** The game an accepted challenge started. */
+  game?: { gameId: string; code: string };
+}
+
+/**
+ * `open` until a second player joins, then `inProgress` while the game plays. `closed` once it is
+ * over, or when nobody joined in time.
+ */
+export type LobbyStatus = 'open' | 'inProgress' | 'closed';
+
+/**
+ * Stored at `/lobbies/{gameId}` for games listed publicly. Readable by any signed-in player; the
+ * game callables make every write.
+ */
+export interface LobbyDocument extends LobbySettings {
+  gameId: string;
+  code: string;
+  hostUid: string;
+  hostName: string;
+  word?: string;
+  bestOf?: number;
+  status: LobbyStatus;
+  /** ISO time the lobby opened; quick-match pairs players with the longest-waiting one first. */
+  openedAt: string;
+  /** ISO time its game last moved while under way; the cleanup closes it once that goes stale. */
+  activeAt?: string;
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { watchChallenges, type ChallengeInbox } from '../lib/challenges';
+
+const EMPTY_INBOX: ChallengeInbox = { received: [], sent: [] };
+
+/** The signed-in player's challenges, kept live; empty until `uid` is known. */
+export const useChallenges = (uid: string | undefined) => {
+  const [inbox, setInbox] = useState<ChallengeInbox>(EMPTY_INBOX);
+
+  useEffect(() => {
+    if (!uid) {
+      setInbox(EMPTY_INBOX);
+      return undefined;
+    }
+    return watchChallenges(uid, setInbox);
+  }, [uid]);
+
+  return inbox;
+};
@@ -0,0 +1,219 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ref, uploadBytesResumable } from 'firebase/storage';
+import {
+  toAttestationMetadata,
+  type ClipAttestation,
+  type RecordingTicket,
+} from '../game/attestation';
+import { auth, storage } from '../lib/firebase';
+import { listClips, putClip, removeClip, type QueuedClip } from '../lib/clipQueue';
+import { compressClip } from '../lib/compressClip';
+
+export type PendingUploadStatus = 'queued' | 'compressing' | 'uploading' | 'failed';
+
+export interface PendingUpload {
+  clip: QueuedClip;
+  status: PendingUploadStatus;
+  progress: number;
+  error?: string;
+}
+
+interface UseClipQueueOptions {
+  gameId?: string;
+  /** Gets a take's session ready for upload; see `claimRecordingSession`. */
+  claimSession: (gameId: string, sessionId?: string) => Promise<RecordingTicket>;
+  onUploaded: (storagePath: string, clip: QueuedClip) => Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const uploadBlob = (
+  clip: QueuedClip,
+  attestation: ClipAttestation | undefined,
+  onProgress: (progress: number) => void
+) =>
+  new Promise<void>((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, clip.storagePath), clip.blob, {
+      contentType: clip.contentType,
+      customMetadata: {
+        ...(auth.currentUser ? { uploaderUid: auth.currentUser.uid } : {}),
+        ...(attestation ? toAttestationMetadata(attestation) : {}),
+      },
+    });
+    task.on(
+      'state_changed',
+      (snapshot) => onProgress(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100)),
+      reject,
+      () => resolve()
+    );
+  });
+
+/**
+ * Persists recorded clips for a game in IndexedDB and drains them to Storage, compressing each one
+ * first and submitting it once its bytes are up. Clips left over from a dropped connection or a
+ * reload are picked up again on mount and whenever the browser comes back online; failures wait
+ * for a retry or a discard. Each upload claims its take's session first, so however long a clip
+ * sat in the queue it still gets a full upload window.
+ */
+export const useClipQueue = ({
+  gameId,
+  claimSession,
+  onUploaded,
+  onError,
+}: UseClipQueueOptions) => {
+  const [uploads, setUploads] = useState<Record<string, PendingUpload>>({});
+  const inFlight = useRef(new Set<string>());
+  const callbacks = useRef({ claimSession, onUploaded, onError });
+  callbacks.current = { claimSession, onUploaded, onError };
+
+  const patch = useCallback((id: string, update: Partial<PendingUpload> | null) => {
+    setUploads((current) => {
+      if (!update) {
+        const rest = { ...current };
+        delete rest[id];
+        return rest;
+      }
+      const existing = current[id];
+      return existing ? { ...current, [id]: { ...existing, ...update } } : current;
+    });
+  }, []);
+
+  const upload = useCallback(
+    async (clip: QueuedClip) => {
+      if (inFlight.current.has(clip.id)) {
+        return;
+      }
+      inFlight.current.add(clip.id);
+      patch(clip.id, { status: 'uploading', error: undefined });
+      try {
+        let current = clip;
+        if (!current.compressed && !current.uploaded) {
+          patch(clip.id, { status: 'compressing', progress: 0 });
+          const { blob } = await compressClip(current.blob, undefined, (fraction) =>
+            patch(clip.id, { progress: Math.round(fraction * 100) })
+          );
+          current = { ...current, blob, compressed: true };
+          await putClip(current);
+          patch(clip.id, { clip: current, status: 'uploading', progress: 0 });
+        }
+        if (!current.uploaded) {
+          let attestation: ClipAttestation | undefined;
+          if (current.attestation) {
+            const { sessionId } = await callbacks.current.claimSession(
+              current.gameId,
+              current.attestation.sessionId
+            );
+            // Kept, so a failed upload renews this session instead of asking for another.
+            attestation = { ...current.attestation, sessionId };
+            current = { ...current, attestation };
+            await putClip(current);
+          }
+          await uploadBlob(current, attestation, (progress) => patch(clip.id, { progress }));
+          current = { ...current, uploaded: true };
+          await putClip(current);
+          patch(clip.id, { clip: current, progress: 100 });
+        }
+        await callbacks.current.onUploaded(current.storagePath, current);
+        await removeClip(clip.id);
+        patch(clip.id, null);
+      } catch (err) {
+        const errorObj = err instanceof Error ? err : new Error('Failed to upload clip');
+        patch(clip.id, { status: 'failed', error: errorObj.message });
+        callbacks.current.onError?.(errorObj);
+      } finally {
+        inFlight.current.delete(clip.id);
+      }
+    },
+    [patch]
+  );
+
+  const flush = useCallback(
+    (clips: QueuedClip[]) => {
+      if (!isOnline()) {
+        return;
+      }
+      clips.forEach((clip) => {
+        upload(clip).catch((err) => console.error(err));
+      });
+    },
+    [upload]
+  );
+
+  useEffect(() => {
+    setUploads({});
+    if (!gameId) {
+      return;
+    }
+    let cancelled = false;
+    listClips(gameId)
+      .then((clips) => {
+        if (cancelled) return;
+        setUploads(
+          Object.fromEntries(
+            clips.map((clip) => [clip.id, { clip, status: 'queued', progress: 0 } as PendingUpload])
+          )
+        );
+        flush(clips);
+      })
+      .catch((err) => console.error('Failed to load queued clips', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [flush, gameId]);
+
+  useEffect(() => {
+    if (!gameId) {
+      return;
+    }
+    const handleOnline = () => {
+      listClips(gameId)
+        .then(flush)
+        .catch((err) => console.error(err));
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flush, gameId]);
+
+  /** Stores a freshly recorded clip before trying to upload it, so the take survives a reload. */
+  const enqueue = useCallback(
+    async (clip: QueuedClip) => {
+      await putClip(clip);
+      setUploads((current) => ({ ...current, [clip.id]: { clip, status: 'queued', progress: 0 } }));
+      flush([clip]);
+    },
+    [flush]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      const pending = uploads[id];
+      if (pending) {
+        upload(pending.clip).catch((err) => console.error(err));
+      }
+    },
+    [upload, uploads]
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      if (inFlight.current.has(id)) {
+        return;
+      }
+      await removeClip(id);
+      patch(id, null);
+    },
+    [patch]
+  );
+
+  return {
+    uploads: Object.values(uploads).sort((a, b) =>
+      a.clip.createdAt.localeCompare(b.clip.createdAt)
+    ),
+    enqueue,
+    retry,
+    discard,
+  };
+};
@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { invalidateClipUrl, peekClipUrl, resolveClipUrl } from '../lib/clipUrl';
+
+/**
+ * Resolves a clip's download URL for a media element. Pass no path to hold off fetching. A cached
+ * URL that fails to load is dropped and resolved again once before the error is surfaced.
+ */
+export const useClipUrl = (storagePath?: string) => {
+  const [url, setUrl] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+  const [attempt, setAttempt] = useState(0);
+  const retried = useRef<string | undefined>();
+
+  useEffect(() => {
+    if (!storagePath) {
+      setUrl(undefined);
+      return undefined;
+    }
+    let active = true;
+    setError(undefined);
+    setUrl(peekClipUrl(storagePath));
+    resolveClipUrl(storagePath)
+      .then((next) => {
+        if (active) setUrl(next);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Unable to load clip');
+      });
+    return () => {
+      active = false;
+    };
+  }, [storagePath, attempt]);
+
+  const onMediaError = useCallback(() => {
+    if (!storagePath) {
+      return;
+    }
+    if (retried.current === storagePath) {
+      setError('Unable to play clip');
+      return;
+    }
+    retried.current = storagePath;
+    invalidateClipUrl(storagePath);
+    setAttempt((current) => current + 1);
+  }, [storagePath]);
+
+  return { url, error, onMediaError };
+};
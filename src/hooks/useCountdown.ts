@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 1000;
+
+/** Milliseconds left until `deadline` (ISO), re-rendering every second. `undefined` without one. */
+export const useCountdown = (deadline?: string) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!deadline) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+
+  if (!deadline) {
+    return undefined;
+  }
+  return Math.max(0, Date.parse(deadline) - now);
+};
+
+export const formatCountdown = (remainingMs: number) => {
+  const totalSeconds = Math.ceil(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
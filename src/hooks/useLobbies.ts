@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { watchLobbies, type LobbyListing } from '../lib/lobbies';
+
+const EMPTY_LISTING: LobbyListing = { open: [], live: [] };
+
+/** The public lobbies, kept live once the player is signed in. */
+export const useLobbies = (signedIn: boolean) => {
+  const [listing, setListing] = useState<LobbyListing>(EMPTY_LISTING);
+
+  useEffect(() => {
+    if (!signedIn) {
+      setListing(EMPTY_LISTING);
+      return undefined;
+    }
+    return watchLobbies(setListing);
+  }, [signedIn]);
+
+  return listing;
+};
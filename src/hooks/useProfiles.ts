@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchProfile } from '../lib/profiles';
+import type { UserProfile } from '../game/types';
+
+/** Profiles of the given players keyed by uid; players without one are simply absent. */
+export const useProfiles = (uids: string[]) => {
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>({});
+  const key = uids.join(',');
+
+  useEffect(() => {
+    let active = true;
+    const ids = key ? key.split(',') : [];
+    Promise.all(ids.map((uid) => fetchProfile(uid).catch(() => undefined))).then((loaded) => {
+      if (!active) return;
+      const next: Record<string, UserProfile> = {};
+      loaded.forEach((profile) => {
+        if (profile) next[profile.uid] = profile;
+      });
+      setProfiles(next);
+    });
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  return profiles;
+};
@@ -1,39 +1,171 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { ref, uploadBytesResumable } from 'firebase/storage';
-import { storage } from '../lib/firebase';
+import type { RecordingTicket, TakeAttestation } from '../game/attestation';
+import { clipFileName, clipPath } from '../game/paths';
+import type { QueuedClip } from '../lib/clipQueue';
+import { trimClip, type ClipRange } from '../lib/compressClip';
+import {
+  DEFAULT_CAPTURE,
+  formatForMimeType,
+  listCameras,
+  loadCaptureSettings,
+  pickRecordingFormat,
+  saveCaptureSettings,
+  videoConstraints,
+  type CameraDevice,
+  type CaptureSettings,
+  type RecordingFormat
+} from '../lib/mediaCapture';
 import type { GamePhase, PlayerSlot } from '../store/game';
+import { useClipQueue } from './useClipQueue';
 
-type RecordingStatus = 'idle' | 'recording' | 'uploading' | 'error';
+type RecordingStatus =
+  'idle' | 'recording' | 'reviewing' | 'trimming' | 'compressing' | 'uploading' | 'error';
+
+/** A stopped take waiting for the shooter to submit or throw it away. */
+export interface RecordedTake {
+  blob: Blob;
+  /** Object URL for playing the take back; revoked once the take is submitted or discarded. */
+  url: string;
+  format: RecordingFormat;
+  phase: GamePhase;
+  shooter: PlayerSlot;
+  durationMs: number;
+  attestation: TakeAttestation;
+}
 
 interface UseRecordingOptions {
   gameId?: string;
   phase: GamePhase;
   shooter: PlayerSlot;
-  onUploaded: (storagePath: string) => Promise<void>;
+  /** The shooter's uid; their clips are stored under it. */
+  uid?: string;
+  /**
+   * Asks the server for the session a take is attested with, just before recording starts. Offline
+   * the take is recorded without one.
+   */
+  startSession: () => Promise<RecordingTicket>;
+  /** Gets a queued take's session ready for upload; see `useClipQueue`. */
+  claimSession: (gameId: string, sessionId?: string) => Promise<RecordingTicket>;
+  /** Called once a clip is in Storage; `clip.phase` is the phase it was recorded for. */
+  onUploaded: (storagePath: string, clip: QueuedClip) => Promise<void>;
   onError?: (error: Error) => void;
+  /** Recording stops on its own once a take reaches this length. */
+  maxDurationMs?: number;
 }
 
-export const useRecording = ({ gameId, phase, shooter, onUploaded, onError }: UseRecordingOptions) => {
+const ELAPSED_TICK_MS = 100;
+
+const openCamera = async (capture: CaptureSettings) => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: videoConstraints(capture),
+      audio: true
+    });
+  } catch (err) {
+    // A remembered camera may have been unplugged; fall back to the facing mode.
+    if (!capture.deviceId) {
+      throw err;
+    }
+    return navigator.mediaDevices.getUserMedia({
+      video: videoConstraints({ ...capture, deviceId: undefined }),
+      audio: true
+    });
+  }
+};
+
+export const useRecording = ({
+  gameId,
+  phase,
+  shooter,
+  uid,
+  startSession,
+  claimSession,
+  onUploaded,
+  onError,
+  maxDurationMs
+}: UseRecordingOptions) => {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timersRef = useRef<number[]>([]);
+  // Device clock to server clock, from the last ticket; offline takes reuse it.
+  const clockOffsetRef = useRef(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
   const [status, setStatus] = useState<RecordingStatus>('idle');
-  const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | undefined>();
+  const [capture, setCapture] = useState<CaptureSettings>(DEFAULT_CAPTURE);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [take, setTake] = useState<RecordedTake | undefined>();
+  const [trimProgress, setTrimProgress] = useState(0);
+  const { uploads, enqueue, retry, discard } = useClipQueue({
+    gameId,
+    claimSession,
+    onUploaded,
+    onError
+  });
+  const activeUpload = uploads.find(
+    (upload) => upload.status === 'compressing' || upload.status === 'uploading'
+  );
+
+  const clearTimers = useCallback(() => {
+    timersRef.current.forEach((timer) => {
+      window.clearTimeout(timer);
+      window.clearInterval(timer);
+    });
+    timersRef.current = [];
+  }, []);
 
-  const resetStream = () => {
+  const resetStream = useCallback(() => {
+    clearTimers();
     streamRef.current?.getTracks().forEach((track) => track.stop());
     streamRef.current = null;
     mediaRecorderRef.current = null;
     chunksRef.current = [];
-  };
+  }, [clearTimers]);
 
   useEffect(() => {
     return () => {
       resetStream();
     };
+  }, [resetStream]);
+
+  useEffect(() => {
+    return () => {
+      if (take) {
+        URL.revokeObjectURL(take.url);
+      }
+    };
+  }, [take]);
+
+  // A take only counts for the phase it was recorded in.
+  useEffect(() => {
+    setTake(undefined);
+    setStatus((current) => (current === 'reviewing' ? 'idle' : current));
+  }, [gameId, phase]);
+
+  const refreshCameras = useCallback(() => {
+    listCameras()
+      .then(setCameras)
+      .catch((err) => console.warn('Unable to list cameras', err));
+  }, []);
+
+  useEffect(() => {
+    setCapture(loadCaptureSettings());
+    refreshCameras();
+    const devices = typeof navigator === 'undefined' ? undefined : navigator.mediaDevices;
+    devices?.addEventListener?.('devicechange', refreshCameras);
+    return () => devices?.removeEventListener?.('devicechange', refreshCameras);
+  }, [refreshCameras]);
+
+  const updateCapture = useCallback((update: Partial<CaptureSettings>) => {
+    setCapture((current) => {
+      const next = { ...current, ...update };
+      saveCaptureSettings(next);
+      return next;
+    });
   }, []);
 
   const startRecording = useCallback(async () => {
@@ -44,10 +176,32 @@ export const useRecording = ({ gameId, phase, shooter, onUploaded, onError }: Us
       return;
     }
 
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      const err = new Error('Recording is not supported in this browser');
+      setError(err.message);
+      onError?.(err);
+      return;
+    }
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+      const stream = await openCamera(capture);
       streamRef.current = stream;
-      const recorder = new MediaRecorder(stream, { mimeType: 'video/webm;codecs=vp9,opus' });
+      // Offline the take is recorded anyway; the upload queue claims its session once we're back.
+      const ticket = navigator.onLine ? await startSession() : undefined;
+      if (ticket) {
+        clockOffsetRef.current = Date.parse(ticket.issuedAt) - Date.now();
+      }
+      // Timestamps go out on the server's clock so a skewed device clock can't fail the check.
+      const offsetMs = clockOffsetRef.current;
+      const serverNow = () => new Date(Date.now() + offsetMs).toISOString();
+      let startedAt = '';
+      // Device labels are only exposed once the camera has been opened.
+      refreshCameras();
+      const preferred = pickRecordingFormat();
+      const recorder = new MediaRecorder(
+        stream,
+        preferred ? { mimeType: preferred.mimeType } : undefined
+      );
       mediaRecorderRef.current = recorder;
       chunksRef.current = [];
       recorder.ondataavailable = (event) => {
@@ -55,58 +209,130 @@ export const useRecording = ({ gameId, phase, shooter, onUploaded, onError }: Us
           chunksRef.current.push(event.data);
         }
       };
-      recorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        const fileName = `${Date.now()}-${phase.toLowerCase()}-${shooter}.webm`;
-        const storagePath = `games/${gameId}/${fileName}`;
-        const storageRef = ref(storage, storagePath);
-        setStatus('uploading');
-        const uploadTask = uploadBytesResumable(storageRef, blob, { contentType: 'video/webm' });
-        uploadTask.on(
-          'state_changed',
-          (snapshot) => {
-            const progressValue = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-            setProgress(Math.round(progressValue));
-          },
-          (err) => {
-            setStatus('error');
-            setError(err.message);
-            onError?.(err);
-          },
-          async () => {
-            try {
-              await onUploaded(uploadTask.snapshot.ref.fullPath);
-              setStatus('idle');
-              setProgress(0);
-            } catch (err) {
-              const errorObj = err instanceof Error ? err : new Error('Failed to submit clip');
-              setStatus('error');
-              setError(errorObj.message);
-              onError?.(errorObj);
-            }
-          }
-        );
+      recorder.onstop = () => {
+        // A cancelled take has already been reset; don't keep it.
+        if (mediaRecorderRef.current !== recorder) {
+          return;
+        }
+        const durationMs = Math.round(performance.now() - startedAtRef.current);
+        const attestation: TakeAttestation = {
+          ...(ticket ? { sessionId: ticket.sessionId } : {}),
+          startedAt,
+          stoppedAt: serverNow()
+        };
+        // Browsers may ignore the requested type, so trust what the recorder says it produced.
+        const format = formatForMimeType(recorder.mimeType || preferred?.mimeType || '');
+        const blob = new Blob(chunksRef.current, { type: format.contentType });
         resetStream();
+        setTake({
+          blob,
+          url: URL.createObjectURL(blob),
+          format,
+          phase,
+          shooter,
+          durationMs,
+          attestation
+        });
+        setStatus('reviewing');
       };
       recorder.start();
+      startedAtRef.current = performance.now();
+      startedAt = serverNow();
+      setElapsedMs(0);
+      timersRef.current.push(
+        window.setInterval(
+          () => setElapsedMs(performance.now() - startedAtRef.current),
+          ELAPSED_TICK_MS
+        )
+      );
+      if (maxDurationMs) {
+        timersRef.current.push(
+          window.setTimeout(() => {
+            if (recorder.state !== 'inactive') {
+              recorder.stop();
+            }
+          }, maxDurationMs)
+        );
+      }
       setStatus('recording');
       setError(undefined);
-      setProgress(0);
     } catch (err) {
       const errorObj = err instanceof Error ? err : new Error('Unable to start recording');
+      resetStream();
       setStatus('error');
       setError(errorObj.message);
       onError?.(errorObj);
     }
-  }, [gameId, onError, onUploaded, phase, shooter]);
+  }, [
+    capture,
+    gameId,
+    maxDurationMs,
+    onError,
+    phase,
+    refreshCameras,
+    resetStream,
+    shooter,
+    startSession
+  ]);
+
+  /** Queues the take for upload, cut down to `range` first when the shooter trimmed it. */
+  const submitTake = useCallback(
+    async (range?: ClipRange) => {
+      if (!take || !gameId || !uid) {
+        return;
+      }
+      try {
+        let { blob, format, durationMs } = take;
+        if (range) {
+          setStatus('trimming');
+          setTrimProgress(0);
+          blob = await trimClip(take.blob, range, undefined, (fraction) =>
+            setTrimProgress(Math.round(fraction * 100))
+          );
+          format = formatForMimeType(blob.type);
+          durationMs = Math.round((range.endS - range.startS) * 1000);
+        }
+        const fileName = clipFileName(take.phase, take.shooter, format.extension);
+        await enqueue({
+          id: fileName,
+          gameId,
+          phase: take.phase,
+          shooter: take.shooter,
+          storagePath: clipPath({ gameId, uid, fileName }),
+          contentType: format.contentType,
+          blob,
+          durationMs,
+          attestation: take.attestation,
+          // A trimmed take has just been re-encoded; don't do it twice.
+          compressed: !!range,
+          createdAt: new Date().toISOString()
+        });
+        setTake(undefined);
+        setStatus('idle');
+      } catch (err) {
+        const errorObj = err instanceof Error ? err : new Error('Failed to save clip');
+        setStatus('reviewing');
+        setError(errorObj.message);
+        onError?.(errorObj);
+      }
+    },
+    [enqueue, gameId, onError, take, uid]
+  );
+
+  const discardTake = useCallback(() => {
+    setTake(undefined);
+    setStatus('idle');
+    setError(undefined);
+  }, []);
 
   const stopRecording = useCallback(() => {
     const recorder = mediaRecorderRef.current;
+    clearTimers();
     if (recorder && recorder.state !== 'inactive') {
       recorder.stop();
     }
     streamRef.current?.getTracks().forEach((track) => track.stop());
-  }, []);
+  }, [clearTimers]);
 
   const cancelRecording = useCallback(() => {
     if (mediaRecorderRef.current?.state === 'recording') {
@@ -114,13 +340,22 @@ export const useRecording = ({ gameId, phase, shooter, onUploaded, onError }: Us
     }
     resetStream();
     setStatus('idle');
-    setProgress(0);
-  }, []);
+  }, [resetStream]);
 
   return {
-    status,
-    progress,
+    status: status === 'idle' && activeUpload ? activeUpload.status : status,
+    progress: status === 'trimming' ? trimProgress : (activeUpload?.progress ?? 0),
     error,
+    elapsedMs,
+    take,
+    submitTake,
+    discardTake,
+    cameras,
+    capture,
+    setCapture: updateCapture,
+    pendingUploads: uploads,
+    retryUpload: retry,
+    discardUpload: discard,
     startRecording,
     stopRecording,
     cancelRecording
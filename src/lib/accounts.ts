@@ -0,0 +1,130 @@
+import {
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  linkWithCredential,
+  linkWithPopup,
+  sendSignInLinkToEmail,
+  signInWithCredential,
+  signInWithEmailLink,
+  type AuthError,
+} from 'firebase/auth';
+import { httpsCallable, type FunctionsError } from 'firebase/functions';
+import { auth, ensureSignedIn, functions } from './firebase';
+
+/** `linked`: the guest uid now has a permanent sign-in. `merged`: its games moved to another. */
+export type SaveAccountResult = 'linked' | 'merged';
+
+// Remembers who asked for an email link, so opening it in this browser needs no second prompt.
+const LINK_EMAIL_KEY = 'skatehubba:save-account-email';
+
+// The ticket of a merge the saved account still has to finish; kept until `mergeAccount` succeeds.
+const PENDING_MERGE_KEY = 'skatehubba:pending-merge';
+
+// The sign-in already has an account of its own, so linking it to the guest is refused.
+const TAKEN_CODES = ['auth/credential-already-in-use', 'auth/email-already-in-use'];
+
+const isTaken = (error: unknown) =>
+  TAKEN_CODES.includes((error as AuthError | undefined)?.code ?? '');
+
+const currentGuest = () => {
+  const user = auth.currentUser;
+  if (!user?.isAnonymous) {
+    throw new Error('This account is already saved');
+  }
+  return user;
+};
+
+/**
+ * Finishes a merge that an earlier "Save your account" left pending, once a saved account is signed
+ * in. Resolves true when one went through. A ticket the server no longer knows is dropped; any
+ * other failure keeps it for the next try.
+ */
+export const resumePendingMerge = async () => {
+  const ticket = window.localStorage.getItem(PENDING_MERGE_KEY);
+  if (!ticket || !auth.currentUser || auth.currentUser.isAnonymous) {
+    return false;
+  }
+  try {
+    await httpsCallable(functions, 'mergeAccount')({ ticket });
+  } catch (error) {
+    if ((error as FunctionsError | undefined)?.code === 'functions/not-found') {
+      window.localStorage.removeItem(PENDING_MERGE_KEY);
+    }
+    throw error;
+  }
+  window.localStorage.removeItem(PENDING_MERGE_KEY);
+  return true;
+};
+
+/**
+ * Signs into the account the credential already belongs to and has `mergeAccount` move the guest's
+ * games over. The guest takes out a merge ticket first, while it is still signed in: it is the only
+ * proof this browser owned the guest, and is kept until the merge goes through.
+ */
+const signInAndMerge = async (signIn: () => Promise<unknown>) => {
+  const { data } = await httpsCallable<void, { ticket: string }>(functions, 'startAccountMerge')();
+  window.localStorage.setItem(PENDING_MERGE_KEY, data.ticket);
+  await signIn();
+  await resumePendingMerge();
+  return 'merged' as const;
+};
+
+export const saveWithGoogle = async (): Promise<SaveAccountResult> => {
+  await ensureSignedIn();
+  const guest = currentGuest();
+  try {
+    await linkWithPopup(guest, new GoogleAuthProvider());
+    return 'linked';
+  } catch (error) {
+    const credential = isTaken(error)
+      ? GoogleAuthProvider.credentialFromError(error as AuthError)
+      : null;
+    if (!credential) {
+      throw error;
+    }
+    return signInAndMerge(() => signInWithCredential(auth, credential));
+  }
+};
+
+/** Emails a sign-in link that comes back to the current page to finish saving the account. */
+export const sendSaveAccountLink = async (email: string) => {
+  await ensureSignedIn();
+  currentGuest();
+  await sendSignInLinkToEmail(auth, email, {
+    url: window.location.href.split('?')[0],
+    handleCodeInApp: true,
+  });
+  window.localStorage.setItem(LINK_EMAIL_KEY, email);
+};
+
+export const isSaveAccountLink = (href: string) => isSignInWithEmailLink(auth, href);
+
+/**
+ * Finishes saving the account when `href` is an emailed sign-in link, linking it to the guest
+ * with `linkWithCredential`. Resolves `undefined` for any other page.
+ */
+export const completeSaveAccountLink = async (
+  href: string
+): Promise<SaveAccountResult | undefined> => {
+  if (!isSaveAccountLink(href)) {
+    return undefined;
+  }
+  const email = window.localStorage.getItem(LINK_EMAIL_KEY);
+  if (!email) {
+    throw new Error('Open the link in the browser you requested it from');
+  }
+  await ensureSignedIn();
+  const guest = currentGuest();
+  try {
+    await linkWithCredential(guest, EmailAuthProvider.credentialWithLink(email, href));
+    return 'linked';
+  } catch (error) {
+    if (!isTaken(error)) {
+      throw error;
+    }
+    return signInAndMerge(() => signInWithEmailLink(auth, email, href));
+  } finally {
+    window.localStorage.removeItem(LINK_EMAIL_KEY);
+  }
+};
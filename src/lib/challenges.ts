@@ -0,0 +1,45 @@
+import { collection, onSnapshot, query, where, type Unsubscribe } from 'firebase/firestore';
+import { firestore } from './firebase';
+import type { ChallengeDocument } from '../game/types';
+
+export interface ChallengeEntry {
+  challengeId: string;
+  challenge: ChallengeDocument;
+}
+
+export interface ChallengeInbox {
+  /** Challenges sent to the player. */
+  received: ChallengeEntry[];
+  /** Challenges the player sent, so they can follow one into its game once accepted. */
+  sent: ChallengeEntry[];
+}
+
+const byExpiry = (a: ChallengeEntry, b: ChallengeEntry) =>
+  a.challenge.expiresAt.localeCompare(b.challenge.expiresAt);
+
+/**
+ * Streams both sides of a player's challenges, soonest to expire first. Answered and lapsed
+ * challenges stay listed until the cleanup job deletes them; callers filter what they show.
+ */
+export const watchChallenges = (
+  uid: string,
+  onChange: (inbox: ChallengeInbox) => void
+): Unsubscribe => {
+  const inbox: ChallengeInbox = { received: [], sent: [] };
+  const watch = (field: 'opponentUid' | 'challengerUid', side: keyof ChallengeInbox) =>
+    onSnapshot(
+      query(collection(firestore, 'challenges'), where(field, '==', uid)),
+      (snapshot) => {
+        inbox[side] = snapshot.docs
+          .map((challengeDoc) => ({
+            challengeId: challengeDoc.id,
+            challenge: challengeDoc.data() as ChallengeDocument,
+          }))
+          .sort(byExpiry);
+        onChange({ ...inbox });
+      },
+      (error) => console.error('Failed to subscribe to challenges', error)
+    );
+  const unsubscribers = [watch('opponentUid', 'received'), watch('challengerUid', 'sent')];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
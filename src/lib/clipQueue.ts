@@ -0,0 +1,87 @@
+import type { TakeAttestation } from '../game/attestation';
+import type { GamePhase, PlayerSlot } from '../game/types';
+
+/** A recorded take waiting in IndexedDB until it is uploaded and submitted to its game. */
+export interface QueuedClip {
+  id: string;
+  gameId: string;
+  phase: GamePhase;
+  shooter: PlayerSlot;
+  storagePath: string;
+  contentType: string;
+  blob: Blob;
+  /** Length of the take as timed by the recorder. */
+  durationMs?: number;
+  /** Recording session of the take, uploaded as custom metadata once the queue has claimed it. */
+  attestation?: TakeAttestation;
+  createdAt: string;
+  /** Set once the compression step has run, whether or not it shrank `blob`. */
+  compressed?: boolean;
+  /** Set once the bytes are in Storage, so a retry only repeats the submit. */
+  uploaded?: boolean;
+}
+
+const DB_NAME = 'skatehubba';
+const DB_VERSION = 1;
+const STORE = 'pendingClips';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Browsers without IndexedDB (or with it blocked) still queue for the lifetime of the tab.
+const memoryQueue = new Map<string, QueuedClip>();
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const openQueue = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('gameId', 'gameId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openQueue();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putClip = async (clip: QueuedClip) => {
+  if (!hasIndexedDB()) {
+    memoryQueue.set(clip.id, clip);
+    return;
+  }
+  await run('readwrite', (store) => store.put(clip));
+};
+
+/** Clips still queued for `gameId`, oldest first. */
+export const listClips = async (gameId: string) => {
+  const clips = hasIndexedDB()
+    ? await run<QueuedClip[]>('readonly', (store) => store.index('gameId').getAll(gameId))
+    : Array.from(memoryQueue.values()).filter((clip) => clip.gameId === gameId);
+  return clips.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const removeClip = async (id: string) => {
+  if (!hasIndexedDB()) {
+    memoryQueue.delete(id);
+    return;
+  }
+  await run('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,94 @@
+import { getDownloadURL, ref } from 'firebase/storage';
+import { ensureSignedIn, shouldUseEmulator, storage } from './firebase';
+
+interface CachedUrl {
+  url: string;
+  cachedAt: number;
+}
+
+// Download URLs stay valid until their token is revoked; a week bounds how long a revoked one
+// lingers before `invalidateClipUrl` is needed.
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 300;
+
+const inFlight = new Map<string, Promise<string>>();
+const resolved = new Map<string, string>();
+
+// Emulator URLs point at localhost, so they never share a cache with the real bucket's.
+const storageKey = () =>
+  `skatehubba:clip-urls:${storage.app.options.storageBucket ?? 'default'}${
+    shouldUseEmulator ? ':emulator' : ''
+  }`;
+
+const readPersisted = (): Record<string, CachedUrl> => {
+  try {
+    const stored = window.localStorage.getItem(storageKey());
+    return stored ? (JSON.parse(stored) as Record<string, CachedUrl>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writePersisted = (entries: Record<string, CachedUrl>) => {
+  try {
+    const newest = Object.entries(entries)
+      .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+      .slice(0, MAX_ENTRIES);
+    window.localStorage.setItem(storageKey(), JSON.stringify(Object.fromEntries(newest)));
+  } catch {
+    // Storage can be full or disabled; the in-memory cache still works.
+  }
+};
+
+/** A cached URL for the clip, if one is known, without touching the network. */
+export const peekClipUrl = (storagePath: string) => {
+  const cached = resolved.get(storagePath);
+  if (cached || typeof window === 'undefined') {
+    return cached;
+  }
+  const entry = readPersisted()[storagePath];
+  if (!entry || Date.now() - entry.cachedAt > MAX_AGE_MS) {
+    return undefined;
+  }
+  resolved.set(storagePath, entry.url);
+  return entry.url;
+};
+
+/**
+ * Resolves an authorised download URL for a clip through `getDownloadURL`, so Storage rules and the
+ * emulator both apply. Results are cached in memory and in localStorage; concurrent lookups for the
+ * same path share one request.
+ */
+export const resolveClipUrl = (storagePath: string): Promise<string> => {
+  const cached = peekClipUrl(storagePath);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+  const pending = inFlight.get(storagePath);
+  if (pending) {
+    return pending;
+  }
+  const request = ensureSignedIn()
+    .then(() => getDownloadURL(ref(storage, storagePath)))
+    .then((url) => {
+      resolved.set(storagePath, url);
+      writePersisted({ ...readPersisted(), [storagePath]: { url, cachedAt: Date.now() } });
+      return url;
+    })
+    .finally(() => inFlight.delete(storagePath));
+  inFlight.set(storagePath, request);
+  return request;
+};
+
+/** Drops a URL that stopped working, e.g. after its download token was revoked. */
+export const invalidateClipUrl = (storagePath: string) => {
+  resolved.delete(storagePath);
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const entries = readPersisted();
+  if (entries[storagePath]) {
+    delete entries[storagePath];
+    writePersisted(entries);
+  }
+};
@@ -0,0 +1,386 @@
+export interface CompressionSettings {
+  /** Resolution cap; clips are scaled down to fit, never up. */
+  maxWidth: number;
+  maxHeight: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  /** Size budget. Long clips get a lower video bitrate so the output still fits. */
+  maxBytes: number;
+}
+
+// Stays under the 120 MB cap in storage.rules with room for container overhead.
+export const DEFAULT_COMPRESSION: CompressionSettings = {
+  maxWidth: 1280,
+  maxHeight: 720,
+  videoBitsPerSecond: 2_500_000,
+  audioBitsPerSecond: 96_000,
+  maxBytes: 100 * 1024 * 1024,
+};
+
+export interface CompressionResult {
+  blob: Blob;
+  /** False when the original blob came back untouched. */
+  compressed: boolean;
+}
+
+interface OutputFormat {
+  contentType: 'video/webm' | 'video/mp4';
+  /** Encoder codec strings paired with the muxer's name for them, in order of preference. */
+  videoCodecs: { encoder: string; muxer: string }[];
+  audioCodec: { encoder: string; muxer: string };
+}
+
+const WEBM_OUTPUT: OutputFormat = {
+  contentType: 'video/webm',
+  videoCodecs: [
+    { encoder: 'vp09.00.10.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ],
+  audioCodec: { encoder: 'opus', muxer: 'A_OPUS' },
+};
+
+const MP4_OUTPUT: OutputFormat = {
+  contentType: 'video/mp4',
+  videoCodecs: [
+    { encoder: 'avc1.4d0028', muxer: 'avc' },
+    { encoder: 'avc1.42001f', muxer: 'avc' },
+  ],
+  audioCodec: { encoder: 'mp4a.40.2', muxer: 'aac' },
+};
+
+/**
+ * The container a clip is re-encoded into: the one it was recorded in, so its path and content
+ * type stay valid. Safari records MP4, and can't play WebM back everywhere.
+ */
+export const outputFormatFor = (contentType: string) => {
+  if (contentType.startsWith('video/webm')) {
+    return WEBM_OUTPUT;
+  }
+  if (contentType.startsWith('video/mp4')) {
+    return MP4_OUTPUT;
+  }
+  return undefined;
+};
+
+const AUDIO_SAMPLE_RATE = 48_000;
+const AUDIO_CHUNK_FRAMES = 4_800;
+const KEYFRAME_INTERVAL_US = 2_000_000;
+
+export const isCompressionSupported = () =>
+  typeof window !== 'undefined' &&
+  'VideoEncoder' in window &&
+  'VideoFrame' in window &&
+  'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const fitWithin = (width: number, height: number, settings: CompressionSettings) => {
+  const scale = Math.min(1, settings.maxWidth / width, settings.maxHeight / height);
+  return { width: even(width * scale), height: even(height * scale) };
+};
+
+const loadVideo = (url: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Unable to read the recorded clip'));
+    video.src = url;
+  });
+
+// MediaRecorder output has no duration in its header; seeking past the end makes the browser
+// scan the file and report the real one.
+const resolveDuration = (video: HTMLVideoElement) =>
+  new Promise<number>((resolve) => {
+    if (Number.isFinite(video.duration)) {
+      resolve(video.duration);
+      return;
+    }
+    video.ontimeupdate = () => {
+      video.ontimeupdate = null;
+      video.currentTime = 0;
+      resolve(video.duration);
+    };
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+
+const pickVideoCodec = async (output: OutputFormat, config: Omit<VideoEncoderConfig, 'codec'>) => {
+  for (const codec of output.videoCodecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({ ...config, codec: codec.encoder });
+    if (supported) {
+      return codec;
+    }
+  }
+  return undefined;
+};
+
+const decodeAudio = async (blob: Blob) => {
+  try {
+    const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+    return await context.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    return undefined;
+  }
+};
+
+/** Part of a clip, in seconds from its start. */
+export interface ClipRange {
+  startS: number;
+  endS: number;
+}
+
+interface EncodeTarget {
+  width: number;
+  height: number;
+  videoBitrate: number;
+}
+
+const createMuxer = async (
+  output: OutputFormat,
+  video: { codec: string; width: number; height: number },
+  audio?: { codec: string; sampleRate: number; numberOfChannels: number }
+) => {
+  if (output === MP4_OUTPUT) {
+    const { Muxer, ArrayBufferTarget } = await import('mp4-muxer');
+    return new Muxer({
+      target: new ArrayBufferTarget(),
+      video: { ...video, codec: 'avc' },
+      ...(audio ? { audio: { ...audio, codec: 'aac' } } : {}),
+      fastStart: 'in-memory',
+      firstTimestampBehavior: 'offset',
+    });
+  }
+  const { Muxer, ArrayBufferTarget } = await import('webm-muxer');
+  return new Muxer({
+    target: new ArrayBufferTarget(),
+    video,
+    ...(audio ? { audio } : {}),
+    firstTimestampBehavior: 'offset',
+  });
+};
+
+/**
+ * Encodes `range` of an already loaded clip into a new file of the same container by playing it
+ * through a canvas. Throws if the browser has no suitable encoder or anything fails along the way.
+ */
+const encodeRange = async (
+  blob: Blob,
+  video: HTMLVideoElement,
+  { width, height, videoBitrate }: EncodeTarget,
+  range: ClipRange,
+  settings: CompressionSettings,
+  onProgress?: (fraction: number) => void
+) => {
+  const output = outputFormatFor(blob.type);
+  if (!output) {
+    throw new Error(`Can't re-encode ${blob.type || 'this clip'}`);
+  }
+  const codec = await pickVideoCodec(output, { width, height, bitrate: videoBitrate });
+  if (!codec) {
+    throw new Error(`No ${output.contentType} video encoder is available`);
+  }
+  const audio = 'AudioEncoder' in window ? await decodeAudio(blob) : undefined;
+
+  const muxer = await createMuxer(
+    output,
+    { codec: codec.muxer, width, height },
+    audio
+      ? {
+          codec: output.audioCodec.muxer,
+          sampleRate: AUDIO_SAMPLE_RATE,
+          numberOfChannels: audio.numberOfChannels,
+        }
+      : undefined
+  );
+
+  let encodeError: unknown;
+  const fail = (error: unknown) => {
+    encodeError = encodeError ?? error;
+  };
+
+  if (audio) {
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: fail,
+    });
+    audioEncoder.configure({
+      codec: output.audioCodec.encoder,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: settings.audioBitsPerSecond,
+    });
+    const first = Math.round(range.startS * AUDIO_SAMPLE_RATE);
+    const last = Math.min(audio.length, Math.round(range.endS * AUDIO_SAMPLE_RATE));
+    for (let offset = first; offset < last; offset += AUDIO_CHUNK_FRAMES) {
+      const frames = Math.min(AUDIO_CHUNK_FRAMES, last - offset);
+      const planes = new Float32Array(frames * audio.numberOfChannels);
+      for (let channel = 0; channel < audio.numberOfChannels; channel += 1) {
+        planes.set(
+          audio.getChannelData(channel).subarray(offset, offset + frames),
+          channel * frames
+        );
+      }
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: audio.numberOfChannels,
+        timestamp: Math.round(((offset - first) / AUDIO_SAMPLE_RATE) * 1_000_000),
+        data: planes,
+      });
+      audioEncoder.encode(data);
+      data.close();
+    }
+    await audioEncoder.flush();
+    audioEncoder.close();
+  }
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: fail,
+  });
+  videoEncoder.configure({ codec: codec.encoder, width, height, bitrate: videoBitrate });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  if (range.startS > 0) {
+    await new Promise<void>((resolve) => {
+      video.onseeked = () => resolve();
+      video.currentTime = range.startS;
+    });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    let lastKeyFrame = -Infinity;
+    const length = range.endS - range.startS;
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (metadata.mediaTime >= range.endS) {
+        video.pause();
+        resolve();
+        return;
+      }
+      if (metadata.mediaTime >= range.startS) {
+        const timestamp = Math.round((metadata.mediaTime - range.startS) * 1_000_000);
+        context.drawImage(video, 0, 0, width, height);
+        const frame = new VideoFrame(canvas, { timestamp });
+        const keyFrame = timestamp - lastKeyFrame >= KEYFRAME_INTERVAL_US;
+        if (keyFrame) {
+          lastKeyFrame = timestamp;
+        }
+        videoEncoder.encode(frame, { keyFrame });
+        frame.close();
+        onProgress?.(Math.min(1, (metadata.mediaTime - range.startS) / length));
+      }
+      if (!video.ended) {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+    video.onended = () => resolve();
+    video.onerror = () => reject(new Error('Playback failed while encoding'));
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(reject);
+  });
+
+  await videoEncoder.flush();
+  videoEncoder.close();
+  if (encodeError) {
+    throw encodeError;
+  }
+  muxer.finalize();
+
+  onProgress?.(1);
+  return new Blob([muxer.target.buffer], { type: output.contentType });
+};
+
+// Long clips get a lower video bitrate so the output still fits the size budget.
+const videoBitrateFor = (seconds: number, settings: CompressionSettings) =>
+  Math.min(
+    settings.videoBitsPerSecond,
+    (settings.maxBytes * 8 * 0.95) / seconds - settings.audioBitsPerSecond
+  );
+
+/**
+ * Re-encodes a recorded clip with WebCodecs into a smaller file that fits `settings`: WebM stays
+ * VP9/VP8 WebM, MP4 becomes H.264/AAC MP4. Frames come from playing the clip in a detached video
+ * element, so this takes roughly the clip's length. Any failure, or an unsupported browser,
+ * resolves with the original blob instead of throwing.
+ */
+export const compressClip = async (
+  blob: Blob,
+  settings: CompressionSettings = DEFAULT_COMPRESSION,
+  onProgress?: (fraction: number) => void
+): Promise<CompressionResult> => {
+  const original: CompressionResult = { blob, compressed: false };
+  if (!isCompressionSupported() || !outputFormatFor(blob.type)) {
+    return original;
+  }
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const video = await loadVideo(url);
+    const duration = await resolveDuration(video);
+    const { width, height } = fitWithin(video.videoWidth, video.videoHeight, settings);
+    const videoBitrate = videoBitrateFor(duration, settings);
+    const alreadyFits =
+      blob.size <= settings.maxBytes &&
+      width === video.videoWidth &&
+      (blob.size * 8) / duration <= settings.videoBitsPerSecond + settings.audioBitsPerSecond;
+    if (!Number.isFinite(duration) || videoBitrate <= 0 || alreadyFits) {
+      return original;
+    }
+
+    const output = await encodeRange(
+      blob,
+      video,
+      { width, height, videoBitrate },
+      { startS: 0, endS: duration },
+      settings,
+      onProgress
+    );
+    return output.size < blob.size ? { blob: output, compressed: true } : original;
+  } catch (error) {
+    console.warn('Clip compression failed, uploading the original', error);
+    return original;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Cuts `range` out of a take as a new file in the same container, compressed to `settings` on the
+ * way. Unlike `compressClip` this throws when the browser can't do it, so the caller can offer the
+ * full take.
+ */
+export const trimClip = async (
+  blob: Blob,
+  range: ClipRange,
+  settings: CompressionSettings = DEFAULT_COMPRESSION,
+  onProgress?: (fraction: number) => void
+) => {
+  if (!isCompressionSupported()) {
+    throw new Error('Trimming is not supported in this browser');
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const video = await loadVideo(url);
+    const { width, height } = fitWithin(video.videoWidth, video.videoHeight, settings);
+    return await encodeRange(
+      blob,
+      video,
+      { width, height, videoBitrate: videoBitrateFor(range.endS - range.startS, settings) },
+      range,
+      settings,
+      onProgress
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
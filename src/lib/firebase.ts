@@ -45,7 +45,7 @@ export const firestore = getFirestore(app);
 export const storage = getStorage(app);
 export const functions = getFunctions(app, process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_REGION ?? 'us-central1');
 
-const shouldUseEmulator = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true';
+export const shouldUseEmulator = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true';
 
 if (shouldUseEmulator && typeof window !== 'undefined') {
   connectAuthEmulator(auth, 'http://localhost:9099', { disableWarnings: true });
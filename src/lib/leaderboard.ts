@@ -0,0 +1,58 @@
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { ensureSignedIn, firestore } from './firebase';
+import { rememberProfile } from './profiles';
+import type { UserProfile } from '../game/types';
+
+/** `all`: ranked by rating. `recent`: by net rating change over the rolling window. */
+export type LeaderboardView = 'all' | 'recent';
+
+export const LEADERBOARD_PAGE_SIZE = 25;
+
+export interface LeaderboardPage {
+  entries: UserProfile[];
+  /** Pass back to load the next page; absent on the last one. */
+  cursor?: QueryDocumentSnapshot;
+}
+
+const rankedBy: Record<LeaderboardView, string> = {
+  all: 'rating',
+  recent: 'recent.ratingChange',
+};
+
+/**
+ * One page of the leaderboard. Firestore leaves out profiles without the ranked field, so players
+ * show up once they finish a rated game, and on the rolling view only while it is in the window.
+ */
+export const fetchLeaderboard = async (
+  view: LeaderboardView,
+  cursor?: QueryDocumentSnapshot
+): Promise<LeaderboardPage> => {
+  await ensureSignedIn();
+  const ranked = query(
+    collection(firestore, 'users'),
+    orderBy(rankedBy[view], 'desc'),
+    ...(cursor ? [startAfter(cursor)] : []),
+    limit(LEADERBOARD_PAGE_SIZE)
+  );
+  const snapshot = await getDocs(ranked);
+  // Documents that only hold stats have no handle to link to yet.
+  const entries = snapshot.docs
+    .map((doc) => doc.data() as UserProfile)
+    .filter((profile) => profile.handle);
+  entries.forEach(rememberProfile);
+  return {
+    entries,
+    cursor:
+      snapshot.docs.length === LEADERBOARD_PAGE_SIZE
+        ? snapshot.docs[snapshot.docs.length - 1]
+        : undefined,
+  };
+};
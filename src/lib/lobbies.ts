@@ -0,0 +1,51 @@
+import {
+  collection,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  where,
+  type QueryConstraint,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import type { LobbyDocument } from '../game/types';
+
+const OPEN_LIMIT = 20;
+const LIVE_LIMIT = 10;
+
+export interface LobbyListing {
+  /** Waiting for a second player, longest-waiting first. */
+  open: LobbyDocument[];
+  /** Under way and open to spectators, newest first. */
+  live: LobbyDocument[];
+}
+
+/**
+ * Streams the lobby browser. Lobbies the cleanup job has not closed yet may be stale; callers
+ * filter those with `isJoinableLobby`.
+ */
+export const watchLobbies = (onChange: (listing: LobbyListing) => void): Unsubscribe => {
+  const listing: LobbyListing = { open: [], live: [] };
+  const lobbies = collection(firestore, 'lobbies');
+  const watch = (side: keyof LobbyListing, ...constraints: QueryConstraint[]) =>
+    onSnapshot(
+      query(lobbies, ...constraints),
+      (snapshot) => {
+        listing[side] = snapshot.docs.map((lobbyDoc) => lobbyDoc.data() as LobbyDocument);
+        onChange({ ...listing });
+      },
+      (error) => console.error('Failed to subscribe to lobbies', error)
+    );
+  const unsubscribers = [
+    watch('open', where('status', '==', 'open'), orderBy('openedAt'), limit(OPEN_LIMIT)),
+    watch(
+      'live',
+      where('status', '==', 'inProgress'),
+      where('allowSpectators', '==', true),
+      orderBy('openedAt', 'desc'),
+      limit(LIVE_LIMIT)
+    ),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
@@ -0,0 +1,127 @@
+export interface RecordingFormat {
+  /** Passed to `MediaRecorder`; may name codecs. */
+  mimeType: string;
+  /** Container type the clip is stored and uploaded as. */
+  contentType: 'video/webm' | 'video/mp4';
+  extension: 'webm' | 'mp4';
+}
+
+const WEBM = { contentType: 'video/webm', extension: 'webm' } as const;
+const MP4 = { contentType: 'video/mp4', extension: 'mp4' } as const;
+
+// WebM first for Chrome, Firefox and Android; Safari and iOS only record H.264 in MP4.
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  { mimeType: 'video/webm;codecs=vp9,opus', ...WEBM },
+  { mimeType: 'video/webm;codecs=vp8,opus', ...WEBM },
+  { mimeType: 'video/webm', ...WEBM },
+  { mimeType: 'video/mp4;codecs=avc1.42E01E,mp4a.40.2', ...MP4 },
+  { mimeType: 'video/mp4;codecs=h264,aac', ...MP4 },
+  { mimeType: 'video/mp4', ...MP4 },
+];
+
+/** First format the browser can record, or undefined to let `MediaRecorder` choose. */
+export const pickRecordingFormat = (
+  isTypeSupported: (mimeType: string) => boolean = (mimeType) =>
+    MediaRecorder.isTypeSupported(mimeType)
+) => RECORDING_FORMATS.find((format) => isTypeSupported(format.mimeType));
+
+/** Maps the type a recorder actually produced back to a storable format. */
+export const formatForMimeType = (mimeType: string): RecordingFormat => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  if (base === 'video/mp4' || base === 'video/quicktime') {
+    return { mimeType, ...MP4 };
+  }
+  return { mimeType: mimeType || WEBM.contentType, ...WEBM };
+};
+
+export const RESOLUTION_PRESETS = {
+  '480p': { label: '480p', width: 854, height: 480 },
+  '720p': { label: '720p', width: 1280, height: 720 },
+  '1080p': { label: '1080p', width: 1920, height: 1080 },
+} as const;
+
+export type ResolutionPreset = keyof typeof RESOLUTION_PRESETS;
+
+export const FRAME_RATE_PRESETS = [24, 30, 60] as const;
+
+export type FrameRatePreset = (typeof FRAME_RATE_PRESETS)[number];
+
+export interface CaptureSettings {
+  /** A specific camera from `listCameras`; falls back to `facingMode` when unset or unplugged. */
+  deviceId?: string;
+  facingMode: 'user' | 'environment';
+  resolution: ResolutionPreset;
+  frameRate: FrameRatePreset;
+}
+
+// Filming someone else's trick, so the back camera is the sensible default.
+export const DEFAULT_CAPTURE: CaptureSettings = {
+  facingMode: 'environment',
+  resolution: '720p',
+  frameRate: 30,
+};
+
+/**
+ * Video constraints for `getUserMedia`. Everything is `ideal` so a camera that can't match the
+ * preset still opens at its closest mode instead of failing.
+ */
+export const videoConstraints = (settings: CaptureSettings): MediaTrackConstraints => {
+  const { width, height } = RESOLUTION_PRESETS[settings.resolution];
+  return {
+    ...(settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: { ideal: settings.facingMode } }),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate },
+  };
+};
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** Cameras the browser knows about. Labels stay empty until camera permission has been granted. */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput' && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${index + 1}`,
+    }));
+};
+
+const STORAGE_KEY = 'skatehubba:capture';
+
+export const loadCaptureSettings = (): CaptureSettings => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as Partial<CaptureSettings>) : {};
+    return {
+      ...DEFAULT_CAPTURE,
+      ...parsed,
+      resolution:
+        parsed.resolution && parsed.resolution in RESOLUTION_PRESETS
+          ? parsed.resolution
+          : DEFAULT_CAPTURE.resolution,
+      frameRate: FRAME_RATE_PRESETS.includes(parsed.frameRate as FrameRatePreset)
+        ? (parsed.frameRate as FrameRatePreset)
+        : DEFAULT_CAPTURE.frameRate,
+    };
+  } catch {
+    return DEFAULT_CAPTURE;
+  }
+};
+
+export const saveCaptureSettings = (settings: CaptureSettings) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing can refuse storage; the picker still works for this session.
+  }
+};
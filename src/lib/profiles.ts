@@ -0,0 +1,73 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+  type DocumentData,
+} from 'firebase/firestore';
+import { ensureSignedIn, firestore } from './firebase';
+import type { GameDocument, UserProfile } from '../game/types';
+
+export interface ProfileGame {
+  gameId: string;
+  game: GameDocument;
+}
+
+// Profiles change rarely; one lookup per uid per page load keeps scoreboards cheap.
+const cache = new Map<string, Promise<UserProfile | undefined>>();
+
+// Documents that only hold stats belong to players who have not signed in since profiles shipped.
+const toProfile = (data: DocumentData | undefined) =>
+  data?.handle ? (data as UserProfile) : undefined;
+
+/** Loads a player's profile by uid, sharing one request between every caller. */
+export const fetchProfile = (uid: string): Promise<UserProfile | undefined> => {
+  const cached = cache.get(uid);
+  if (cached) {
+    return cached;
+  }
+  const request = ensureSignedIn()
+    .then(() => getDoc(doc(firestore, 'users', uid)))
+    .then((snapshot) => toProfile(snapshot.data()));
+  request.catch(() => cache.delete(uid));
+  cache.set(uid, request);
+  return request;
+};
+
+export const fetchProfileByHandle = async (handle: string) => {
+  await ensureSignedIn();
+  const snapshot = await getDocs(
+    query(collection(firestore, 'users'), where('handle', '==', handle), limit(1))
+  );
+  const profile = toProfile(snapshot.docs[0]?.data());
+  if (profile) {
+    cache.set(profile.uid, Promise.resolve(profile));
+  }
+  return profile;
+};
+
+/** The player's most recently active games, newest first. */
+export const fetchRecentGames = async (uid: string, count = 10): Promise<ProfileGame[]> => {
+  await ensureSignedIn();
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'games'),
+      where('playerUids', 'array-contains', uid),
+      orderBy('updatedAt', 'desc'),
+      limit(count)
+    )
+  );
+  return snapshot.docs.map((gameDoc) => ({
+    gameId: gameDoc.id,
+    game: gameDoc.data() as GameDocument,
+  }));
+};
+
+/** Replaces a cached profile after its owner edits it. */
+export const rememberProfile = (profile: UserProfile) => {
+  cache.set(profile.uid, Promise.resolve(profile));
+};
@@ -1,6 +1,6 @@
 'use client';
 
-import { httpsCallable } from 'firebase/functions';
+import { httpsCallable, type HttpsCallableOptions } from 'firebase/functions';
 import {
   collection,
   doc,
@@ -15,43 +15,69 @@ import { onAuthStateChanged, type User } from 'firebase/auth';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import { create } from 'zustand';
 import { auth, ensureSignedIn, firestore, functions } from '../lib/firebase';
+import { rememberProfile } from '../lib/profiles';
+import {
+  completeSaveAccountLink,
+  isSaveAccountLink,
+  resumePendingMerge,
+  saveWithGoogle,
+  sendSaveAccountLink,
+  type SaveAccountResult
+} from '../lib/accounts';
+import type { RecordingTicket } from '../game/attestation';
+import {
+  applyMove,
+  canMove,
+  isRuleViolation,
+  judgeOf,
+  shooterOf,
+  slotForUid,
+  type Move,
+  type MoveType
+} from '../game/rules';
+import { REEL_RENDER_SECONDS } from '../game/reel';
+import type {
+  ClipDocument,
+  GameDocument,
+  GameSettings,
+  PlayerSlot,
+  ReelState,
+  UserProfile
+} from '../game/types';
 
-export type PlayerSlot = 'A' | 'B';
-export type GamePhase = 'SET_RECORD' | 'SET_JUDGE' | 'RESP_RECORD' | 'RESP_JUDGE';
-
-export interface PlayerState {
-  uid: string;
-  name: string;
-  letters: string;
-}
-
-export interface GameCurrentState {
-  by: PlayerSlot;
-  setVideoPath?: string;
-  responseVideoPath?: string;
-}
-
-export type HistoryResult = 'declined_set' | 'approved_set' | 'landed' | 'failed';
-
-export interface GameHistoryEntry {
-  by: PlayerSlot;
-  setPath?: string;
-  respPath?: string;
-  result: HistoryResult;
-  ts: string;
-}
+export type {
+  ClipDocument,
+  ClipLengthSettings,
+  ChallengeDocument,
+  ChallengeStatus,
+  ClipMatch,
+  GameCurrentState,
+  GameDocument,
+  GameHistoryEntry,
+  GamePhase,
+  GameSettings,
+  HistoryResult,
+  HouseRules,
+  LobbyDocument,
+  LobbySettings,
+  LobbyStatus,
+  PlayerSlot,
+  PlayerState,
+  ReelState,
+  SeriesState,
+  ProfileStats,
+  RatingChange,
+  ShotClockSettings,
+  UserProfile,
+  Verdict
+} from '../game/types';
+export type { RecordingTicket } from '../game/attestation';
 
-export interface GameDocument {
-  code: string;
-  turn: PlayerSlot;
-  phase: GamePhase;
-  winner?: PlayerSlot;
-  players: {
-    A?: PlayerState;
-    B?: PlayerState;
-  };
-  current: GameCurrentState;
-  history: GameHistoryEntry[];
+/** Fields a player can edit on their own profile; an empty string clears `bio` or `avatarUrl`. */
+export interface ProfileChanges {
+  handle?: string;
+  bio?: string;
+  avatarUrl?: string;
 }
 
 interface PhaseGuards {
@@ -64,22 +90,45 @@ interface PhaseGuards {
 
 export interface GameStoreState {
   user: User | null;
+  /** Set while the player is on an anonymous account that clearing the browser would lose. */
+  guest: boolean;
+  /** The signed-in player's own profile, created on their first sign-in. */
+  profile?: UserProfile;
   initializing: boolean;
   gameId?: string;
   code?: string;
   role?: PlayerSlot;
   game?: GameDocument;
+  /** Processed clips for the bound game, keyed by storage path. */
+  clips: Record<string, ClipDocument>;
   guards: PhaseGuards;
   loading: boolean;
   error?: string;
   actions: {
     bootstrap: () => Promise<void>;
-    createGame: (name: string) => Promise<{ gameId: string; code: string }>;
+    updateProfile: (changes: ProfileChanges) => Promise<UserProfile>;
+    saveAccountWithGoogle: () => Promise<SaveAccountResult>;
+    sendSaveAccountLink: (email: string) => Promise<void>;
+    completeSaveAccountLink: () => Promise<SaveAccountResult | undefined>;
+    createGame: (name: string, settings?: GameSettings) => Promise<{ gameId: string; code: string }>;
     joinGame: (code: string, name: string) => Promise<void>;
+    /** Joins the longest-waiting public lobby; rejects when none is open. */
+    quickMatch: (name: string) => Promise<{ gameId: string; code: string }>;
+    rematch: () => Promise<{ gameId: string; code: string }>;
+    challengeSkater: (handle: string, trick?: string) => Promise<{ challengeId: string }>;
+    /** Resolves the started game when accepting; declining resolves `undefined`. */
+    answerChallenge: (
+      challengeId: string,
+      accept: boolean
+    ) => Promise<{ gameId: string; code: string } | undefined>;
+    makeReel: () => Promise<ReelState>;
+    startRecordingSession: () => Promise<RecordingTicket>;
+    /** Renews a queued take's session before upload, or opens one for a take shot offline. */
+    claimRecordingSession: (gameId: string, sessionId?: string) => Promise<RecordingTicket>;
     connectGame: (code: string) => Promise<void>;
-    submitSetClip: (storagePath: string) => Promise<void>;
+    submitSetClip: (storagePath: string, durationMs?: number) => Promise<void>;
     judgeSet: (approve: boolean) => Promise<void>;
-    submitResponseClip: (storagePath: string) => Promise<void>;
+    submitResponseClip: (storagePath: string, durationMs?: number) => Promise<void>;
     judgeResponse: (approve: boolean) => Promise<void>;
     selfFailSet: () => Promise<void>;
     selfFailResponse: () => Promise<void>;
@@ -98,43 +147,38 @@ const initialGuards: PhaseGuards = {
 
 let authUnsubscribe: Unsubscribe | null = null;
 let gameUnsubscribe: Unsubscribe | null = null;
+let clipsUnsubscribe: Unsubscribe | null = null;
+
+const unbindGame = () => {
+  if (gameUnsubscribe) {
+    gameUnsubscribe();
+    gameUnsubscribe = null;
+  }
+  if (clipsUnsubscribe) {
+    clipsUnsubscribe();
+    clipsUnsubscribe = null;
+  }
+};
 
 const deriveGuards = (game: GameDocument | undefined, role: PlayerSlot | undefined): PhaseGuards => {
   if (!game || !role) {
     return initialGuards;
   }
 
-  const isShooter = game.current.by === role;
-  const isJudge = !isShooter;
-
-  const canRecord =
-    (game.phase === 'SET_RECORD' && isShooter && game.turn === role) ||
-    (game.phase === 'RESP_RECORD' && isShooter);
-
-  const canApprove =
-    (game.phase === 'SET_JUDGE' && isJudge && game.turn === (role === 'A' ? 'B' : 'A')) ||
-    (game.phase === 'RESP_JUDGE' && isJudge);
-
-  const canSelfFail =
-    (game.phase === 'SET_RECORD' && isShooter) ||
-    (game.phase === 'RESP_RECORD' && isShooter);
-
   return {
-    isShooter,
-    isJudge,
-    canRecord,
-    canApprove,
-    canSelfFail
+    isShooter: shooterOf(game) === role,
+    isJudge: judgeOf(game) === role,
+    canRecord: canMove(game, role, 'submitSet') || canMove(game, role, 'submitResponse'),
+    canApprove: canMove(game, role, 'judgeSet') || canMove(game, role, 'judgeResponse'),
+    canSelfFail: canMove(game, role, 'selfFailSet') || canMove(game, role, 'selfFailResponse')
   };
 };
 
 export const derivePhaseGuards = deriveGuards;
 
 const bindGame = (gameId: string, set: (partial: Partial<GameStoreState>) => void, get: () => GameStoreState) => {
-  if (gameUnsubscribe) {
-    gameUnsubscribe();
-    gameUnsubscribe = null;
-  }
+  unbindGame();
+  set({ clips: {} });
 
   const gameRef = doc(firestore, 'games', gameId);
   gameUnsubscribe = onSnapshot(
@@ -150,12 +194,7 @@ const bindGame = (gameId: string, set: (partial: Partial<GameStoreState>) => voi
       let role: PlayerSlot | undefined = get().role;
 
       if (user) {
-        const { players } = data;
-        if (players.A?.uid === user.uid) {
-          role = 'A';
-        } else if (players.B?.uid === user.uid) {
-          role = 'B';
-        }
+        role = slotForUid(data, user.uid) ?? role;
       }
 
       set({
@@ -172,6 +211,20 @@ const bindGame = (gameId: string, set: (partial: Partial<GameStoreState>) => voi
       set({ error: error.message, loading: false });
     }
   );
+
+  // Thumbnails and durations land here once the clip pipeline has processed an upload.
+  clipsUnsubscribe = onSnapshot(
+    query(collection(firestore, 'clips'), where('gameId', '==', gameId)),
+    (snapshot) => {
+      const clips: Record<string, ClipDocument> = {};
+      snapshot.forEach((clipDoc) => {
+        const clip = clipDoc.data() as ClipDocument;
+        clips[clip.storagePath] = clip;
+      });
+      set({ clips });
+    },
+    (error) => console.error('Failed to subscribe to clips', error)
+  );
 };
 
 const handleError = (set: (partial: Partial<GameStoreState>) => void, error: unknown) => {
@@ -179,21 +232,112 @@ const handleError = (set: (partial: Partial<GameStoreState>) => void, error: unk
   set({ error: message, loading: false });
 };
 
-const callCloudFunction = async <T>(name: string, payload: Record<string, unknown> | undefined = undefined): Promise<T> => {
-  const callable = httpsCallable(functions, name);
+const callCloudFunction = async <T>(
+  name: string,
+  payload: Record<string, unknown> | undefined = undefined,
+  options: HttpsCallableOptions | undefined = undefined
+): Promise<T> => {
+  const callable = httpsCallable(functions, name, options);
   const result = await callable(payload ?? {});
   return result.data as T;
 };
 
+// A profile is not needed to play, so a failure here only costs the profile link.
+const loadProfile = async (set: (partial: Partial<GameStoreState>) => void) => {
+  try {
+    const profile = await callCloudFunction<UserProfile>('ensureProfile');
+    rememberProfile(profile);
+    set({ profile });
+  } catch (error) {
+    console.error('Failed to load profile', error);
+  }
+};
+
+// A merge that failed after switching accounts is tried again on the next visit, before the
+// profile loads, so the profile shows the merged stats.
+const finishPendingMerge = async () => {
+  try {
+    await resumePendingMerge();
+  } catch (error) {
+    console.error('Failed to finish merging the guest account', error);
+  }
+};
+
+/**
+ * Runs one of the "Save your account" flows. A merge signs into another uid, so the profile is
+ * loaded again for it.
+ */
+const saveAccount = async <T extends SaveAccountResult | undefined>(
+  set: (partial: Partial<GameStoreState>) => void,
+  save: () => Promise<T>
+) => {
+  try {
+    set({ loading: true, error: undefined });
+    const result = await save();
+    set({ loading: false, guest: !!auth.currentUser?.isAnonymous });
+    if (result === 'merged') {
+      await loadProfile(set);
+    }
+    return result;
+  } catch (error) {
+    handleError(set, error);
+    throw error;
+  }
+};
+
+const moveCallables: Record<MoveType, string> = {
+  submitSet: 'submitSetClip',
+  judgeSet: 'judgeSet',
+  selfFailSet: 'selfFailSet',
+  submitResponse: 'submitRespClip',
+  judgeResponse: 'judgeResp',
+  selfFailResponse: 'selfFailResp'
+};
+
+/**
+ * Applies `move` through the shared rules so the UI updates immediately, then asks the callable to
+ * commit it. The game snapshot reconciles on success; a rejected call restores the previous state.
+ */
+const performMove = async (
+  set: (partial: Partial<GameStoreState>) => void,
+  get: () => GameStoreState,
+  move: Move
+) => {
+  const { gameId, game, role } = get();
+  if (!gameId || !game) {
+    throw new Error('Missing game context');
+  }
+
+  const next = applyMove(game, role, move, new Date().toISOString());
+  if (isRuleViolation(next)) {
+    throw new Error(next.message);
+  }
+
+  set({ loading: true, game: next, guards: deriveGuards(next, role) });
+  try {
+    const { type, ...payload } = move;
+    await callCloudFunction(moveCallables[type], { gameId, ...payload });
+    set({ loading: false });
+  } catch (error) {
+    if (get().game === next) {
+      set({ game, guards: deriveGuards(game, role) });
+    }
+    throw error;
+  }
+};
+
 export const useGameStore = create<GameStoreState>()(
   devtools(
     subscribeWithSelector((set, get) => ({
       user: null,
+      guest: false,
+      profile: undefined,
       initializing: true,
       game: undefined,
       gameId: undefined,
       code: undefined,
       role: undefined,
+      clips: {},
       guards: initialGuards,
       loading: false,
       error: undefined,
@@ -208,18 +352,53 @@ export const useGameStore = create<GameStoreState>()(
           await ensureSignedIn();
 
           authUnsubscribe = onAuthStateChanged(auth, (user) => {
-            set({ user, initializing: false });
+            set({ user, guest: !!user?.isAnonymous, initializing: false });
             const currentGame = get().game;
             if (currentGame) {
               set({ guards: deriveGuards(currentGame, get().role) });
             }
           });
+
+          await finishPendingMerge();
+          await loadProfile(set);
+        },
+        updateProfile: async (changes: ProfileChanges) => {
+          try {
+            set({ loading: true, error: undefined });
+            const profile = await callCloudFunction<UserProfile>('updateProfile', { ...changes });
+            rememberProfile(profile);
+            set({ profile, loading: false });
+            return profile;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
         },
-        createGame: async (name: string) => {
+        saveAccountWithGoogle: () => saveAccount(set, saveWithGoogle),
+        sendSaveAccountLink: async (email: string) => {
+          try {
+            set({ loading: true, error: undefined });
+            await sendSaveAccountLink(email);
+            set({ loading: false });
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        completeSaveAccountLink: async () => {
+          const href = window.location.href;
+          return isSaveAccountLink(href)
+            ? saveAccount(set, () => completeSaveAccountLink(href))
+            : undefined;
+        },
+        createGame: async (name: string, settings: GameSettings = {}) => {
           try {
             set({ loading: true });
-            const data = await callCloudFunction<{ gameId: string; code: string }>('createGame', { name });
             await ensureSignedIn();
+            const data = await callCloudFunction<{ gameId: string; code: string }>('createGame', {
+              name,
+              ...settings
+            });
             set({ loading: false });
             return data;
           } catch (error) {
@@ -239,6 +418,96 @@ export const useGameStore = create<GameStoreState>()(
             throw error;
           }
         },
+        quickMatch: async (name: string) => {
+          try {
+            set({ loading: true, error: undefined });
+            await ensureSignedIn();
+            const data = await callCloudFunction<{ gameId: string; code: string }>('quickMatch', { name });
+            await get().actions.connectGame(data.code);
+            set({ loading: false });
+            return data;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        rematch: async () => {
+          const { gameId } = get();
+          if (!gameId) {
+            throw new Error('Missing game context');
+          }
+          try {
+            set({ loading: true });
+            const data = await callCloudFunction<{ gameId: string; code: string }>('rematch', { gameId });
+            set({ loading: false });
+            return data;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        challengeSkater: async (handle: string, trick?: string) => {
+          try {
+            set({ loading: true, error: undefined });
+            const data = await callCloudFunction<{ challengeId: string }>('challengeSkater', {
+              handle,
+              ...(trick ? { trick } : {})
+            });
+            set({ loading: false });
+            return data;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        answerChallenge: async (challengeId: string, accept: boolean) => {
+          try {
+            set({ loading: true, error: undefined });
+            const data = await callCloudFunction<{ game?: { gameId: string; code: string } }>(
+              'answerChallenge',
+              { challengeId, accept }
+            );
+            set({ loading: false });
+            return data.game;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        makeReel: async () => {
+          const { gameId } = get();
+          if (!gameId) {
+            throw new Error('Missing game context');
+          }
+          try {
+            set({ loading: true });
+            // Rendering re-encodes every clip, far past the SDK's default 70s.
+            const data = await callCloudFunction<ReelState>(
+              'makeReel',
+              { gameId },
+              { timeout: REEL_RENDER_SECONDS * 1000 }
+            );
+            set({ loading: false });
+            return data;
+          } catch (error) {
+            handleError(set, error);
+            throw error;
+          }
+        },
+        // No loading flag: the recorder waits on this right before the camera starts rolling.
+        startRecordingSession: async () => {
+          const { gameId } = get();
+          if (!gameId) {
+            throw new Error('Missing game context');
+          }
+          return callCloudFunction<RecordingTicket>('startRecordingSession', { gameId });
+        },
+        // Takes are claimed for the game they were queued under, which may not be the bound one.
+        claimRecordingSession: async (gameId: string, sessionId?: string) =>
+          callCloudFunction<RecordingTicket>('claimRecordingSession', {
+            gameId,
+            ...(sessionId ? { sessionId } : {})
+          }),
         connectGame: async (code: string) => {
           try {
             set({ loading: true, error: undefined });
@@ -257,90 +526,62 @@ export const useGameStore = create<GameStoreState>()(
             handleError(set, error);
           }
         },
-        submitSetClip: async (storagePath: string) => {
+        submitSetClip: async (storagePath: string, durationMs?: number) => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('submitSetClip', { gameId, storagePath });
-            set({ loading: false });
+            await performMove(set, get, { type: 'submitSet', storagePath, durationMs });
           } catch (error) {
             handleError(set, error);
+            // The clip queue keeps the take until a submit goes through.
+            throw error;
           }
         },
         judgeSet: async (approve: boolean) => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('judgeSet', { gameId, approve });
-            set({ loading: false });
+            await performMove(set, get, { type: 'judgeSet', approve });
           } catch (error) {
             handleError(set, error);
           }
         },
-        submitResponseClip: async (storagePath: string) => {
+        submitResponseClip: async (storagePath: string, durationMs?: number) => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('submitRespClip', { gameId, storagePath });
-            set({ loading: false });
+            await performMove(set, get, { type: 'submitResponse', storagePath, durationMs });
           } catch (error) {
             handleError(set, error);
+            // The clip queue keeps the take until a submit goes through.
+            throw error;
           }
         },
         judgeResponse: async (approve: boolean) => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('judgeResp', { gameId, approve });
-            set({ loading: false });
+            await performMove(set, get, { type: 'judgeResponse', approve });
           } catch (error) {
             handleError(set, error);
           }
         },
         selfFailSet: async () => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('selfFailSet', { gameId });
-            set({ loading: false });
+            await performMove(set, get, { type: 'selfFailSet' });
           } catch (error) {
             handleError(set, error);
           }
         },
         selfFailResponse: async () => {
           try {
-            const { gameId } = get();
-            if (!gameId) {
-              throw new Error('Missing game context');
-            }
-            set({ loading: true });
-            await callCloudFunction('selfFailResp', { gameId });
-            set({ loading: false });
+            await performMove(set, get, { type: 'selfFailResponse' });
           } catch (error) {
             handleError(set, error);
           }
         },
         leaveGame: () => {
-          if (gameUnsubscribe) {
-            gameUnsubscribe();
-            gameUnsubscribe = null;
-          }
-          set({ game: undefined, gameId: undefined, code: undefined, role: undefined, guards: initialGuards });
+          unbindGame();
+          set({
+            game: undefined,
+            gameId: undefined,
+            code: undefined,
+            role: undefined,
+            clips: {},
+            guards: initialGuards
+          });
         },
         clearError: () => set({ error: undefined })
       }
@@ -349,7 +590,9 @@ export const useGameStore = create<GameStoreState>()(
 );
 
 export const selectGame = (state: GameStoreState) => state.game;
+export const selectClips = (state: GameStoreState) => state.clips;
 export const selectGuards = (state: GameStoreState) => state.guards;
 export const selectRole = (state: GameStoreState) => state.role;
 export const selectPhase = (state: GameStoreState) => state.game?.phase;
 export const selectActions = (state: GameStoreState) => state.actions;
+export const selectProfile = (state: GameStoreState) => state.profile;
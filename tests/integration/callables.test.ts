@@ -0,0 +1,385 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { RecordingTicket } from '../../src/game/attestation';
+import { clipPath } from '../../src/game/paths';
+import type { UserProfile } from '../../src/game/types';
+import { createRulesEnvironment, signInPlayer, type TestPlayer } from './emulators';
+
+interface CreatedGame {
+  gameId: string;
+  code: string;
+}
+
+describe('game-engine callables', () => {
+  let setter: TestPlayer;
+  let responder: TestPlayer;
+  let outsider: TestPlayer;
+
+  const startGame = async (settings: Record<string, unknown> = {}) => {
+    const created = await setter.call<CreatedGame>('createGame', { name: 'Setter', ...settings });
+    await responder.call('joinGame', { code: created.code, name: 'Responder' });
+    return created;
+  };
+
+  const clipBy = (player: TestPlayer, gameId: string, name: string) =>
+    clipPath({ gameId, uid: player.uid, fileName: `${name}.webm` });
+
+  beforeAll(async () => {
+    [setter, responder, outsider] = await Promise.all([
+      signInPlayer(),
+      signInPlayer(),
+      signInPlayer(),
+    ]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([setter, responder, outsider].map((player) => player.dispose()));
+  });
+
+  it('plays a full S.K.8 match through to a winner and a rematch', async () => {
+    const { gameId } = await startGame();
+
+    for (const round of [1, 2, 3]) {
+      await setter.call('submitSetClip', {
+        gameId,
+        storagePath: await setter.recordClip(gameId, `set-${round}`),
+      });
+      await responder.call('judgeSet', { gameId, approve: true });
+      await responder.call('submitRespClip', {
+        gameId,
+        storagePath: await responder.recordClip(gameId, `resp-${round}`),
+      });
+      await setter.call('judgeResp', { gameId, approve: false });
+    }
+
+    const game = await setter.readGame(gameId);
+    expect(game.winner).toBe('A');
+    expect(game.players.A).toMatchObject({ uid: setter.uid, letters: '' });
+    expect(game.players.B).toMatchObject({ uid: responder.uid, letters: 'SK8', eliminated: true });
+    expect(game.history.map((entry) => entry.result)).toEqual([
+      'approved_set',
+      'failed',
+      'approved_set',
+      'failed',
+      'approved_set',
+      'failed',
+    ]);
+    expect(game.deadline).toBeUndefined();
+
+    const rematch = await responder.call<CreatedGame>('rematch', { gameId });
+    await expect(setter.call('rematch', { gameId })).resolves.toEqual(rematch);
+    const next = await responder.readGame(rematch.gameId);
+    expect(next).toMatchObject({ turn: 'B', phase: 'SET_RECORD', rematchOf: gameId });
+  });
+
+  it('passes the turn when a set is declined', async () => {
+    const { gameId } = await startGame();
+    await setter.call('submitSetClip', {
+      gameId,
+      storagePath: await setter.recordClip(gameId, 'set'),
+    });
+    await responder.call('judgeSet', { gameId, approve: false });
+    await expect(responder.readGame(gameId)).resolves.toMatchObject({
+      turn: 'B',
+      phase: 'SET_RECORD',
+      current: { by: 'B' },
+    });
+  });
+
+  it('rejects moves from the wrong player with the rule they broke', async () => {
+    const { gameId } = await startGame();
+    const storagePath = clipBy(responder, gameId, 'set');
+
+    await expect(responder.call('submitSetClip', { gameId, storagePath })).rejects.toMatchObject({
+      code: 'functions/permission-denied',
+      details: { violation: 'not_shooter' },
+    });
+    await expect(outsider.call('selfFailSet', { gameId })).rejects.toMatchObject({
+      code: 'functions/permission-denied',
+      details: { violation: 'not_a_player' },
+    });
+    await expect(setter.call('judgeSet', { gameId, approve: true })).rejects.toMatchObject({
+      code: 'functions/failed-precondition',
+      details: { violation: 'wrong_phase' },
+    });
+  });
+
+  it('rejects clips stored under another game', async () => {
+    const { gameId } = await startGame();
+    await expect(
+      setter.call('submitSetClip', { gameId, storagePath: clipBy(setter, 'elsewhere', 'set') })
+    ).rejects.toMatchObject({ code: 'functions/invalid-argument' });
+  });
+
+  it('rejects clips from another player or outside the clip layout', async () => {
+    const { gameId } = await startGame();
+    await expect(
+      setter.call('submitSetClip', { gameId, storagePath: clipBy(responder, gameId, 'set') })
+    ).rejects.toMatchObject({ code: 'functions/invalid-argument' });
+    await expect(
+      setter.call('submitSetClip', { gameId, storagePath: `games/${gameId}/set.webm` })
+    ).rejects.toMatchObject({ code: 'functions/invalid-argument' });
+  });
+
+  it('only opens recording sessions for the shooter', async () => {
+    const { gameId } = await startGame();
+    await expect(responder.call('startRecordingSession', { gameId })).rejects.toMatchObject({
+      code: 'functions/permission-denied',
+      details: { violation: 'not_shooter' },
+    });
+  });
+
+  it('rejects clips that were never uploaded from a recording session', async () => {
+    const { gameId } = await startGame();
+    await expect(
+      setter.call('submitSetClip', { gameId, storagePath: clipBy(setter, gameId, 'set') })
+    ).rejects.toMatchObject({ code: 'functions/failed-precondition' });
+  });
+
+  it('opens one recording session per set unless the house allows retakes', async () => {
+    const { gameId } = await startGame();
+    const take = await setter.recordClip(gameId, 'set');
+    await expect(setter.recordClip(gameId, 'retake')).rejects.toMatchObject({
+      code: 'functions/failed-precondition',
+      details: { violation: 'retake_not_allowed' },
+    });
+    await setter.call('submitSetClip', { gameId, storagePath: take });
+
+    const loose = await startGame({ houseRules: { setRetakes: true } });
+    await setter.recordClip(loose.gameId, 'set');
+    await setter.call('submitSetClip', {
+      gameId: loose.gameId,
+      storagePath: await setter.recordClip(loose.gameId, 'retake'),
+    });
+    await expect(setter.readGame(loose.gameId)).resolves.toMatchObject({ phase: 'SET_JUDGE' });
+  });
+
+  it('accepts a take shot offline once the upload queue claims its session', async () => {
+    const { gameId } = await startGame();
+    await setter.call('submitSetClip', {
+      gameId,
+      storagePath: await setter.recordClip(gameId, 'set', { offline: true }),
+    });
+    await expect(setter.readGame(gameId)).resolves.toMatchObject({ phase: 'SET_JUDGE' });
+  });
+
+  it('renews the upload window of a queued take for its shooter only', async () => {
+    const { gameId } = await startGame();
+    const ticket = await setter.call<RecordingTicket>('startRecordingSession', { gameId });
+    const renewed = await setter.call<RecordingTicket>('claimRecordingSession', {
+      gameId,
+      sessionId: ticket.sessionId,
+    });
+    expect(renewed.sessionId).toBe(ticket.sessionId);
+    expect(Date.parse(renewed.expiresAt)).toBeGreaterThan(Date.parse(ticket.issuedAt));
+    await expect(
+      responder.call('claimRecordingSession', { gameId, sessionId: ticket.sessionId })
+    ).rejects.toMatchObject({ details: { violation: 'not_shooter' } });
+    // A one-take set that already has a session can't claim a second one for an offline take.
+    await expect(setter.call('claimRecordingSession', { gameId })).rejects.toMatchObject({
+      details: { violation: 'retake_not_allowed' },
+    });
+  });
+
+  it('rejects a take recorded for an earlier turn', async () => {
+    // Retakes on, so the stale take and the real one can both be recorded in the first turn.
+    const { gameId } = await startGame({ houseRules: { setRetakes: true } });
+    const stale = await setter.recordClip(gameId, 'stale');
+    await setter.call('submitSetClip', {
+      gameId,
+      storagePath: await setter.recordClip(gameId, 'set'),
+    });
+    await responder.call('judgeSet', { gameId, approve: false });
+    await responder.call('submitSetClip', {
+      gameId,
+      storagePath: await responder.recordClip(gameId, 'set'),
+    });
+    await setter.call('judgeSet', { gameId, approve: false });
+    await expect(
+      setter.call('submitSetClip', { gameId, storagePath: stale })
+    ).rejects.toMatchObject({
+      code: 'functions/permission-denied',
+      details: { violation: 'unattested_clip' },
+    });
+  });
+
+  it('closes the game to new players once the first set is in', async () => {
+    const { gameId, code } = await startGame();
+    await setter.call('submitSetClip', {
+      gameId,
+      storagePath: await setter.recordClip(gameId, 'set'),
+    });
+    await expect(outsider.call('joinGame', { code, name: 'Late' })).rejects.toMatchObject({
+      code: 'functions/failed-precondition',
+      details: { violation: 'game_started' },
+    });
+  });
+
+  it('creates a profile once and keeps handles unique', async () => {
+    const first = await setter.call<UserProfile>('ensureProfile', {});
+    expect(await setter.call<UserProfile>('ensureProfile', {})).toMatchObject({
+      uid: setter.uid,
+      handle: first.handle,
+    });
+    const other = await responder.call<UserProfile>('ensureProfile', {});
+    expect(other.handle).not.toBe(first.handle);
+
+    await expect(responder.call('updateProfile', { handle: first.handle })).rejects.toMatchObject({
+      code: 'functions/already-exists',
+    });
+    const renamed = await responder.call<UserProfile>('updateProfile', {
+      handle: `@Resp_${Date.now() % 100000}`,
+      bio: 'Switch flips only',
+    });
+    expect(renamed.handle).toMatch(/^resp_\d+$/);
+    expect(renamed.bio).toBe('Switch flips only');
+    // The released handle is free again.
+    await setter.call('updateProfile', { handle: other.handle });
+  });
+
+  it('counts and rates finished games on both profiles', async () => {
+    await Promise.all([setter, responder].map((player) => player.call('ensureProfile', {})));
+    const before = await setter.call<UserProfile>('ensureProfile', {});
+    const { gameId } = await startGame();
+    for (const round of [1, 2, 3]) {
+      await setter.call('submitSetClip', {
+        gameId,
+        storagePath: await setter.recordClip(gameId, `set-${round}`),
+      });
+      await responder.call('judgeSet', { gameId, approve: true });
+      await responder.call('selfFailResp', { gameId });
+    }
+    const after = await setter.call<UserProfile>('ensureProfile', {});
+    expect(after.stats).toEqual({
+      gamesPlayed: before.stats.gamesPlayed + 1,
+      gamesWon: before.stats.gamesWon + 1,
+    });
+    const { ratings } = await setter.readGame(gameId);
+    expect(ratings?.A?.after).toBeGreaterThan(ratings?.A?.before ?? Infinity);
+    expect(ratings?.B?.after).toBeLessThan(ratings?.B?.before ?? -Infinity);
+    expect(after.rating).toBe(ratings?.A?.after);
+    expect(after.recent?.gamesWon).toBe((before.recent?.gamesWon ?? 0) + 1);
+  });
+
+  it('lists public games until a second player joins, and quick-matches into one', async () => {
+    const listed = await setter.call<CreatedGame>('createGame', {
+      name: 'Host',
+      lobby: { allowSpectators: true },
+    });
+    expect(await setter.readLobby(listed.gameId)).toMatchObject({
+      code: listed.code,
+      hostUid: setter.uid,
+      status: 'open',
+      allowSpectators: true,
+    });
+    await responder.call('joinGame', { code: listed.code, name: 'Responder' });
+    const joined = await setter.readLobby(listed.gameId);
+    expect(joined?.status).toBe('inProgress');
+    // Every move stamps the live lobby, so the cleanup can find games that went quiet.
+    await setter.call('selfFailSet', { gameId: listed.gameId });
+    const moved = await setter.readLobby(listed.gameId);
+    expect(moved?.activeAt && joined?.activeAt && moved.activeAt > joined.activeAt).toBe(true);
+
+    // Quick-match takes the longest-waiting lobby, which may be one an earlier test left open.
+    await setter.call('createGame', { name: 'Host', lobby: { allowSpectators: false } });
+    const matched = await outsider.call<CreatedGame>('quickMatch', { name: 'Outsider' });
+    const game = await outsider.readGame(matched.gameId);
+    expect(Object.values(game.players).map((player) => player?.uid)).toContain(outsider.uid);
+    expect((await outsider.readLobby(matched.gameId))?.status).toBe('inProgress');
+  });
+
+  it('starts a game when a challenged skater accepts', async () => {
+    const [challenger, opponent] = await Promise.all(
+      [setter, responder].map((player) => player.call<UserProfile>('ensureProfile', {}))
+    );
+    const { challengeId } = await setter.call<{ challengeId: string }>('challengeSkater', {
+      handle: `@${opponent.handle}`,
+      trick: 'Kickflip',
+    });
+    expect(await setter.call('challengeSkater', { handle: opponent.handle })).toEqual({
+      challengeId,
+    });
+    await expect(
+      setter.call('answerChallenge', { challengeId, accept: true })
+    ).rejects.toMatchObject({ code: 'functions/permission-denied' });
+
+    const answer = await responder.call<{ status: string; game: CreatedGame }>('answerChallenge', {
+      challengeId,
+      accept: true,
+    });
+    expect(answer.status).toBe('accepted');
+    const game = await setter.readGame(answer.game.gameId);
+    expect(game.players.A).toMatchObject({ uid: setter.uid, name: challenger.handle });
+    expect(game.players.B).toMatchObject({ uid: responder.uid, name: opponent.handle });
+    expect(game.deadline).toBeDefined();
+    await expect(
+      responder.call('answerChallenge', { challengeId, accept: false })
+    ).rejects.toMatchObject({ code: 'functions/failed-precondition' });
+  });
+
+  it('merges a guest’s games into the account they sign in to', async () => {
+    const guest = await signInPlayer();
+    const saved = await signInPlayer();
+    try {
+      const created = await guest.call<CreatedGame>('createGame', { name: 'Guest' });
+      await responder.call('joinGame', { code: created.code, name: 'Responder' });
+
+      await expect(saved.call('mergeAccount', { ticket: 'forged' })).rejects.toMatchObject({
+        code: 'functions/not-found',
+      });
+      const { ticket } = await guest.call<{ ticket: string }>('startAccountMerge', {});
+      await saved.call('mergeAccount', { ticket });
+      // The ticket is spent once the merge went through.
+      await expect(saved.call('mergeAccount', { ticket })).rejects.toMatchObject({
+        code: 'functions/not-found',
+      });
+
+      const game = await saved.readGame(created.gameId);
+      expect(game.players.A).toMatchObject({ uid: saved.uid, name: 'Guest' });
+      expect(game.playerUids).toEqual([saved.uid, responder.uid]);
+      // The saved account plays on in the guest's seat.
+      await saved.call('submitSetClip', {
+        gameId: created.gameId,
+        storagePath: await saved.recordClip(created.gameId, 'set'),
+      });
+    } finally {
+      await Promise.all([guest.dispose(), saved.dispose()]);
+    }
+  });
+
+  it('picks a failed merge up again on retry and only then deletes the guest', async () => {
+    const guest = await signInPlayer();
+    const saved = await signInPlayer();
+    const env = await createRulesEnvironment();
+    // Sorts after the guest's real game, so the merge fails once that one has already moved.
+    const brokenId = `zzzz-${guest.uid}`;
+    const seed = (data: Record<string, unknown>) =>
+      env.withSecurityRulesDisabled(async (context) => {
+        await context.firestore().doc(`games/${brokenId}`).set(data);
+      });
+    try {
+      const created = await guest.call<CreatedGame>('createGame', { name: 'Guest' });
+      await seed({ code: 'ZZZZ', playerUids: [guest.uid] });
+      const { ticket } = await guest.call<{ ticket: string }>('startAccountMerge', {});
+
+      await expect(saved.call('mergeAccount', { ticket })).rejects.toMatchObject({
+        code: 'functions/internal',
+      });
+      await expect(saved.readGame(created.gameId)).resolves.toMatchObject({
+        playerUids: [saved.uid],
+      });
+      await expect(guest.exists()).resolves.toBe(true);
+
+      await seed({
+        code: 'ZZZZ',
+        players: { A: { uid: guest.uid, name: 'Guest', letters: '' } },
+        playerUids: [guest.uid],
+      });
+      await expect(saved.call('mergeAccount', { ticket })).resolves.toEqual({ games: 1 });
+      await expect(saved.readGame(brokenId)).resolves.toMatchObject({ playerUids: [saved.uid] });
+      await expect(guest.exists()).resolves.toBe(false);
+    } finally {
+      await env.cleanup();
+      await Promise.all([guest.dispose(), saved.dispose()]);
+    }
+  });
+});
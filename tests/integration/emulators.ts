@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { deleteApp, initializeApp, type FirebaseApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, reload, signInAnonymously } from 'firebase/auth';
+import { connectFirestoreEmulator, doc, getDoc, getFirestore } from 'firebase/firestore';
+import { connectFunctionsEmulator, getFunctions, httpsCallable } from 'firebase/functions';
+import { connectStorageEmulator, getStorage, ref, uploadBytes } from 'firebase/storage';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { toAttestationMetadata, type RecordingTicket } from '../../src/game/attestation';
+import { clipPath } from '../../src/game/paths';
+import type { GameDocument, LobbyDocument } from '../../src/game/types';
+
+// Matches the `demo-` project `npm run test:integration` starts the emulators with, so nothing
+// here can reach a real Firebase project. Ports come from firebase.json.
+export const PROJECT_ID = 'demo-skatehubba';
+const HOST = '127.0.0.1';
+const PORTS = { auth: 9099, firestore: 8080, storage: 9199, functions: 5001 };
+
+export const createRulesEnvironment = () =>
+  initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      host: HOST,
+      port: PORTS.firestore,
+      rules: readFileSync('firestore.rules', 'utf8'),
+    },
+    storage: {
+      host: HOST,
+      port: PORTS.storage,
+      rules: readFileSync('storage.rules', 'utf8'),
+    },
+  });
+
+/** Writes a game document directly, bypassing the rules that block client writes to /games. */
+export const seedGame = (env: RulesTestEnvironment, gameId: string, game: GameDocument) =>
+  env.withSecurityRulesDisabled(async (context) => {
+    await context.firestore().doc(`games/${gameId}`).set(game);
+  });
+
+export interface TestPlayer {
+  uid: string;
+  /** False once the account has been deleted from the Auth emulator. */
+  exists: () => Promise<boolean>;
+  call: <T = unknown>(name: string, data: Record<string, unknown>) => Promise<T>;
+  readGame: (gameId: string) => Promise<GameDocument>;
+  readLobby: (gameId: string) => Promise<LobbyDocument | undefined>;
+  /**
+   * Records a take the way the app does: opens a session, then uploads with its metadata. An
+   * `offline` take is shot first and gets its session from `claimRecordingSession` afterwards.
+   */
+  recordClip: (gameId: string, name: string, options?: { offline?: boolean }) => Promise<string>;
+  dispose: () => Promise<void>;
+}
+
+let appCount = 0;
+
+/**
+ * Signs a fresh anonymous user into its own Firebase app wired to the Auth, Firestore, Storage and
+ * Functions emulators, so each player calls the real callables with their own ID token.
+ */
+export const signInPlayer = async (): Promise<TestPlayer> => {
+  appCount += 1;
+  const app: FirebaseApp = initializeApp(
+    { projectId: PROJECT_ID, apiKey: 'demo-key' },
+    `player-${appCount}`
+  );
+  const auth = getAuth(app);
+  connectAuthEmulator(auth, `http://${HOST}:${PORTS.auth}`, { disableWarnings: true });
+  const firestore = getFirestore(app);
+  connectFirestoreEmulator(firestore, HOST, PORTS.firestore);
+  const functions = getFunctions(app);
+  connectFunctionsEmulator(functions, HOST, PORTS.functions);
+  const storage = getStorage(app);
+  connectStorageEmulator(storage, HOST, PORTS.storage);
+
+  const { user } = await signInAnonymously(auth);
+  const call = async <T>(name: string, data: Record<string, unknown>) => {
+    const result = await httpsCallable(functions, name)(data);
+    return result.data as T;
+  };
+  return {
+    uid: user.uid,
+    exists: () =>
+      reload(user).then(
+        () => true,
+        (error: { code?: string }) => {
+          if (error.code === 'auth/user-not-found' || error.code === 'auth/user-token-expired') {
+            return false;
+          }
+          throw error;
+        }
+      ),
+    call,
+    recordClip: async (gameId: string, name: string, { offline = false } = {}) => {
+      const shotAt = Date.now();
+      const ticket = offline
+        ? await call<RecordingTicket>('claimRecordingSession', { gameId })
+        : await call<RecordingTicket>('startRecordingSession', { gameId });
+      const storagePath = clipPath({ gameId, uid: user.uid, fileName: `${name}.webm` });
+      // The emulators share this machine's clock, so an offline take can be timed on it.
+      const recordedFrom = offline ? shotAt - 1100 : Date.parse(ticket.issuedAt);
+      const startedAt = new Date(recordedFrom + 100).toISOString();
+      const stoppedAt = new Date(recordedFrom + 1100).toISOString();
+      // Distinct bytes per take, so no clip reads as a copy of an earlier one.
+      await uploadBytes(ref(storage, storagePath), new TextEncoder().encode(storagePath), {
+        contentType: 'video/webm',
+        customMetadata: {
+          uploaderUid: user.uid,
+          ...toAttestationMetadata({ sessionId: ticket.sessionId, startedAt, stoppedAt }),
+        },
+      });
+      return storagePath;
+    },
+    readGame: async (gameId: string) => {
+      const snapshot = await getDoc(doc(firestore, 'games', gameId));
+      return snapshot.data() as GameDocument;
+    },
+    readLobby: async (gameId: string) => {
+      const snapshot = await getDoc(doc(firestore, 'lobbies', gameId));
+      return snapshot.data() as LobbyDocument | undefined;
+    },
+    dispose: () => deleteApp(app),
+  };
+};
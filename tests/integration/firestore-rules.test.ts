@@ -0,0 +1,266 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import type { GameDocument } from '../../src/game/types';
+import { createRulesEnvironment, seedGame } from './emulators';
+
+const game: GameDocument = {
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_JUDGE',
+  players: {
+    A: { uid: 'setter', name: 'Setter', letters: '' },
+    B: { uid: 'judge', name: 'Judge', letters: '' },
+    C: { uid: 'third', name: 'Third', letters: '' },
+  },
+  order: ['A', 'B', 'C'],
+  current: { by: 'A', setVideoPath: 'games/g1/set.webm' },
+  history: [],
+};
+
+describe('firestore.rules for /games', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await seedGame(env, 'g1', game);
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('lets any signed-in user read a game so they can join by code', async () => {
+    const outsider = env.authenticatedContext('outsider').firestore();
+    await assertSucceeds(getDoc(doc(outsider, 'games/g1')));
+  });
+
+  it('hides games from signed-out visitors', async () => {
+    const visitor = env.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(visitor, 'games/g1')));
+  });
+
+  it.each(['setter', 'judge', 'outsider'])('blocks direct writes from the %s', async (uid) => {
+    const db = env.authenticatedContext(uid).firestore();
+    await assertFails(updateDoc(doc(db, 'games/g1'), { phase: 'RESP_RECORD' }));
+    await assertFails(setDoc(doc(db, 'games/g2'), game));
+    await assertFails(deleteDoc(doc(db, 'games/g1')));
+  });
+
+  it.each(['setter', 'judge', 'third'])('lets the %s log tricks', async (uid) => {
+    const db = env.authenticatedContext(uid).firestore();
+    await assertSucceeds(addDoc(collection(db, 'games/g1/tricks'), { name: 'kickflip' }));
+  });
+
+  it('keeps outsiders out of the trick log', async () => {
+    const db = env.authenticatedContext('outsider').firestore();
+    await assertFails(addDoc(collection(db, 'games/g1/tricks'), { name: 'kickflip' }));
+  });
+});
+
+describe('firestore.rules for clips', () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('clips/c1').set({
+        gameId: 'g1',
+        storagePath: 'games/g1/setter/set.webm',
+        thumbPath: 'thumbnails/games/g1/setter/set.jpg',
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('shows processed clips to signed-in players only', async () => {
+    const spectator = env.authenticatedContext('spectator').firestore();
+    await assertSucceeds(
+      getDocs(query(collection(spectator, 'clips'), where('gameId', '==', 'g1')))
+    );
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'clips/c1')));
+  });
+
+  it('never lets clients write clip documents', async () => {
+    const setter = env.authenticatedContext('setter').firestore();
+    await assertFails(
+      setDoc(doc(setter, 'clips/fake'), {
+        ownerUid: 'setter',
+        storagePath: 'games/g1/setter/set.webm',
+        createdAt: serverTimestamp(),
+      })
+    );
+    await assertFails(updateDoc(doc(setter, 'clips/c1'), { duplicateOf: 'games/g1/x/y.webm' }));
+    await assertFails(deleteDoc(doc(setter, 'clips/c1')));
+  });
+});
+
+describe('firestore.rules for profiles', () => {
+  let env: RulesTestEnvironment;
+  const profile = {
+    uid: 'alice',
+    handle: 'alice',
+    stats: { gamesPlayed: 3, gamesWon: 2 },
+  };
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('users/alice').set(profile);
+      await context.firestore().doc('handles/alice').set({ uid: 'alice' });
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('lets signed-in players read any profile', async () => {
+    const outsider = env.authenticatedContext('outsider').firestore();
+    await assertSucceeds(getDoc(doc(outsider, 'users/alice')));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'users/alice')));
+  });
+
+  it('leaves every profile write to the callables', async () => {
+    const owner = env.authenticatedContext('alice').firestore();
+    await assertFails(updateDoc(doc(owner, 'users/alice'), { stats: { gamesWon: 99 } }));
+    await assertFails(updateDoc(doc(owner, 'users/alice'), { handle: 'bruno' }));
+    const newcomer = env.authenticatedContext('bruno').firestore();
+    await assertFails(setDoc(doc(newcomer, 'users/bruno'), { ...profile, uid: 'bruno' }));
+    await assertSucceeds(getDoc(doc(newcomer, 'users/alice/ratingHistory/g1')));
+    await assertFails(
+      setDoc(doc(owner, 'users/alice/ratingHistory/g1'), {
+        gameId: 'g1',
+        before: 1200,
+        after: 1600,
+        won: true,
+        ts: '2026-01-01T00:00:00.000Z',
+      })
+    );
+  });
+
+  it('keeps handle reservations private', async () => {
+    const owner = env.authenticatedContext('alice').firestore();
+    await assertFails(getDoc(doc(owner, 'handles/alice')));
+    await assertFails(setDoc(doc(owner, 'handles/taken'), { uid: 'alice' }));
+  });
+});
+
+describe('firestore.rules for challenges', () => {
+  let env: RulesTestEnvironment;
+  const challenge = {
+    challengerUid: 'alice',
+    challengerHandle: 'alice',
+    opponentUid: 'bruno',
+    opponentHandle: 'bruno',
+    status: 'pending',
+    expiresAt: '2026-01-03T00:00:00.000Z',
+  };
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('challenges/c1').set(challenge);
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('shows a challenge to its two skaters only', async () => {
+    const opponent = env.authenticatedContext('bruno').firestore();
+    await assertSucceeds(getDoc(doc(opponent, 'challenges/c1')));
+    await assertSucceeds(
+      getDocs(query(collection(opponent, 'challenges'), where('opponentUid', '==', 'bruno')))
+    );
+    await assertSucceeds(
+      getDoc(doc(env.authenticatedContext('alice').firestore(), 'challenges/c1'))
+    );
+    await assertFails(getDoc(doc(env.authenticatedContext('carla').firestore(), 'challenges/c1')));
+  });
+
+  it('leaves every challenge write to the callables', async () => {
+    const opponent = env.authenticatedContext('bruno').firestore();
+    await assertFails(updateDoc(doc(opponent, 'challenges/c1'), { status: 'accepted' }));
+    const challenger = env.authenticatedContext('alice').firestore();
+    await assertFails(addDoc(collection(challenger, 'challenges'), challenge));
+  });
+});
+
+describe('firestore.rules for lobbies', () => {
+  let env: RulesTestEnvironment;
+  const lobby = {
+    gameId: 'g1',
+    code: 'ABCD',
+    hostUid: 'host',
+    hostName: 'Host',
+    status: 'open',
+    allowSpectators: true,
+    openedAt: '2026-05-01T18:00:00.000Z',
+  };
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('lobbies/g1').set(lobby);
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('lets signed-in players browse lobbies', async () => {
+    const browser = env.authenticatedContext('guest').firestore();
+    await assertSucceeds(
+      getDocs(query(collection(browser, 'lobbies'), where('status', '==', 'open')))
+    );
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'lobbies/g1')));
+  });
+
+  it('leaves every lobby write to the callables', async () => {
+    const host = env.authenticatedContext('host').firestore();
+    await assertFails(updateDoc(doc(host, 'lobbies/g1'), { status: 'closed' }));
+    await assertFails(setDoc(doc(host, 'lobbies/g2'), { ...lobby, gameId: 'g2' }));
+  });
+});
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import type { RatingHistoryEntry, RecentStanding } from '../../src/game/types';
+import { PROJECT_ID, createRulesEnvironment } from './emulators';
+
+const NOW = '2026-05-31T12:00:00.000Z';
+const UIDS = ['p1', 'p2', 'p3', 'p4', 'p5'];
+
+const entry = (gameId: string, ts: string, won: boolean): RatingHistoryEntry => ({
+  gameId,
+  ts,
+  won,
+  before: 1200,
+  after: won ? 1216 : 1184,
+});
+
+describe('rollRecentStandings', () => {
+  let env: RulesTestEnvironment;
+  let rollStandings: (now: string, pageSize?: number) => Promise<void>;
+
+  beforeAll(async () => {
+    // The job runs in this process through the Admin SDK, pointed at the same emulator.
+    process.env.GCLOUD_PROJECT ??= PROJECT_ID;
+    process.env.FIRESTORE_EMULATOR_HOST ??= '127.0.0.1:8080';
+    env = await createRulesEnvironment();
+    ({ rollStandings } = await import('../../functions/src/users/standings'));
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('rolls every active profile, however many pages they take', async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      for (const [index, uid] of UIDS.entries()) {
+        await db.doc(`users/${uid}`).set({
+          uid,
+          recent: { ratingChange: 32, gamesPlayed: 2, gamesWon: 2 },
+        });
+        await db
+          .doc(`users/${uid}/ratingHistory/old-${uid}`)
+          .set(entry(`old-${uid}`, '2026-01-01T00:00:00.000Z', true));
+        // Every other player also lost a game inside the window.
+        if (index % 2 === 0) {
+          await db
+            .doc(`users/${uid}/ratingHistory/new-${uid}`)
+            .set(entry(`new-${uid}`, '2026-05-30T00:00:00.000Z', false));
+        }
+      }
+    });
+
+    // Two profiles a page, so the five take three.
+    await rollStandings(NOW, 2);
+
+    const recent: Record<string, RecentStanding | undefined> = {};
+    await env.withSecurityRulesDisabled(async (context) => {
+      for (const uid of UIDS) {
+        recent[uid] = (await context.firestore().doc(`users/${uid}`).get()).data()?.recent;
+      }
+    });
+    const lostOne = { ratingChange: -16, gamesPlayed: 1, gamesWon: 0 };
+    expect(recent).toEqual({
+      p1: lostOne,
+      p2: undefined,
+      p3: lostOne,
+      p4: undefined,
+      p5: lostOne,
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { getBytes, ref, uploadBytes } from 'firebase/storage';
+import { toAttestationMetadata } from '../../src/game/attestation';
+import { clipPath, reelPath, thumbnailPathFor } from '../../src/game/paths';
+import type { GameDocument, GamePhase, PlayerSlot } from '../../src/game/types';
+import { createRulesEnvironment, seedGame } from './emulators';
+
+const clip = new Uint8Array([0, 1, 2, 3]);
+const webm = { contentType: 'video/webm' };
+const setClip = clipPath({ gameId: 'g1', uid: 'setter', fileName: 'set.webm' });
+const respClip = clipPath({ gameId: 'g1', uid: 'responder', fileName: 'resp.webm' });
+const legacyClip = 'challenges/g1/setter/set.webm';
+// The rules only require a session to be named; the submit callables check it.
+const attestation = toAttestationMetadata({
+  sessionId: 'session1',
+  startedAt: '2024-03-01T12:00:00.000Z',
+  stoppedAt: '2024-03-01T12:00:05.000Z',
+});
+
+const gameIn = (phase: GamePhase, by: PlayerSlot): GameDocument => ({
+  code: 'ABCD',
+  turn: 'A',
+  phase,
+  players: {
+    A: { uid: 'setter', name: 'Setter', letters: '' },
+    B: { uid: 'responder', name: 'Responder', letters: '' },
+  },
+  order: ['A', 'B'],
+  current: { by },
+  history: [],
+});
+
+describe('storage.rules for game clips', () => {
+  let env: RulesTestEnvironment;
+
+  const seedLobby = (allowSpectators: boolean) =>
+    env.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc('lobbies/g1').set({ gameId: 'g1', allowSpectators });
+    });
+
+  const upload = (uid: string, path: string, contentType = 'video/webm', uploaderUid = uid) =>
+    uploadBytes(ref(env.authenticatedContext(uid).storage(), path), clip, {
+      contentType,
+      customMetadata: { uploaderUid, ...attestation },
+    });
+
+  beforeAll(async () => {
+    env = await createRulesEnvironment();
+  });
+
+  beforeEach(async () => {
+    await env.clearStorage();
+    await env.clearFirestore();
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  it('lets the setter upload during SET_RECORD', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertSucceeds(upload('setter', setClip));
+  });
+
+  it('lets the responder upload during RESP_RECORD', async () => {
+    await seedGame(env, 'g1', gameIn('RESP_RECORD', 'B'));
+    await assertSucceeds(upload('responder', respClip));
+  });
+
+  it('rejects uploads from whoever is not holding the camera', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertFails(upload('responder', respClip));
+    await assertFails(
+      upload('outsider', clipPath({ gameId: 'g1', uid: 'outsider', fileName: 'set.webm' }))
+    );
+  });
+
+  it('rejects uploads while a clip is being judged', async () => {
+    await seedGame(env, 'g1', gameIn('SET_JUDGE', 'A'));
+    await assertFails(upload('setter', setClip));
+    await assertFails(upload('responder', respClip));
+  });
+
+  it('rejects signed-out uploads and unknown games', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    const visitor = env.unauthenticatedContext().storage();
+    await assertFails(uploadBytes(ref(visitor, setClip), clip, webm));
+    await assertFails(
+      upload('setter', clipPath({ gameId: 'missing', uid: 'setter', fileName: 'set.webm' }))
+    );
+  });
+
+  it('only accepts video clips', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertFails(upload('setter', 'games/g1/setter/set.avi', 'video/avi'));
+    await assertFails(upload('setter', 'games/g1/setter/set.png', 'image/png'));
+  });
+
+  it('requires clips to be attributed to their uploader', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertFails(upload('setter', setClip, 'video/webm', 'responder'));
+    const setter = env.authenticatedContext('setter').storage();
+    await assertFails(uploadBytes(ref(setter, setClip), clip, webm));
+  });
+
+  it('requires clips to name their recording session', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    const setter = env.authenticatedContext('setter').storage();
+    await assertFails(
+      uploadBytes(ref(setter, setClip), clip, {
+        ...webm,
+        customMetadata: { uploaderUid: 'setter' },
+      })
+    );
+  });
+
+  it("only takes uploads into the uploader's own folder", async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertFails(
+      upload('setter', clipPath({ gameId: 'g1', uid: 'responder', fileName: 'set.webm' }))
+    );
+    await assertFails(upload('setter', 'games/g1/set.webm'));
+    await assertFails(upload('setter', 'games/g1/A/set.webm'));
+    await assertFails(upload('setter', 'challenges/g1/setter/set.webm'));
+  });
+
+  it('never overwrites a clip once it is uploaded', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await assertSucceeds(upload('setter', setClip));
+    await assertFails(upload('setter', setClip));
+  });
+
+  it('keeps thumbnails read-only for clients', async () => {
+    await assertFails(upload('setter', thumbnailPathFor(setClip), 'image/jpeg'));
+  });
+
+  it('keeps highlight reels read-only for clients', async () => {
+    await assertFails(upload('setter', reelPath('g1'), 'video/mp4'));
+  });
+
+  it('lets the players watch uploaded clips', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await upload('setter', setClip);
+    const responder = env.authenticatedContext('responder').storage();
+    await assertSucceeds(getBytes(ref(responder, setClip)));
+  });
+
+  it('lets spectators watch only games whose lobby allows them', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await upload('setter', setClip);
+    const spectator = env.authenticatedContext('spectator').storage();
+    await assertFails(getBytes(ref(spectator, setClip)));
+    await seedLobby(false);
+    await assertFails(getBytes(ref(spectator, setClip)));
+    await seedLobby(true);
+    await assertSucceeds(getBytes(ref(spectator, setClip)));
+  });
+
+  it('keeps legacy clips to the same audience, and uploads without a game closed', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await env.withSecurityRulesDisabled(async (context) => {
+      await uploadBytes(ref(context.storage(), legacyClip), clip, webm);
+      await uploadBytes(ref(context.storage(), 'clips/old.webm'), clip, webm);
+    });
+    const responder = env.authenticatedContext('responder').storage();
+    const outsider = env.authenticatedContext('outsider').storage();
+    await assertSucceeds(getBytes(ref(responder, legacyClip)));
+    await assertFails(getBytes(ref(outsider, legacyClip)));
+    await assertFails(getBytes(ref(responder, 'clips/old.webm')));
+    await assertFails(upload('outsider', 'clips/new.webm'));
+  });
+
+  it('hides clips from signed-out visitors', async () => {
+    await seedGame(env, 'g1', gameIn('SET_RECORD', 'A'));
+    await upload('setter', setClip);
+    const visitor = env.unauthenticatedContext().storage();
+    await assertFails(getBytes(ref(visitor, setClip)));
+  });
+});
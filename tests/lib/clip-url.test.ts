@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getDownloadURL = vi.fn();
+
+vi.mock('../../src/lib/firebase', () => ({
+  ensureSignedIn: () => Promise.resolve(null),
+  shouldUseEmulator: false,
+  storage: { app: { options: { storageBucket: 'demo.appspot.com' } } },
+}));
+
+vi.mock('firebase/storage', () => ({
+  ref: (_storage: unknown, path: string) => ({ fullPath: path }),
+  getDownloadURL: (...args: unknown[]) => getDownloadURL(...args),
+}));
+
+const load = async () => {
+  vi.resetModules();
+  return import('../../src/lib/clipUrl');
+};
+
+describe('clip URL resolver', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    getDownloadURL.mockReset();
+    getDownloadURL.mockImplementation(async ({ fullPath }: { fullPath: string }) => {
+      return `https://files.test/${fullPath}?token=1`;
+    });
+  });
+
+  it('shares one lookup between concurrent requests', async () => {
+    const { resolveClipUrl } = await load();
+    const [first, second] = await Promise.all([
+      resolveClipUrl('games/g1/set.webm'),
+      resolveClipUrl('games/g1/set.webm'),
+    ]);
+    expect(first).toBe('https://files.test/games/g1/set.webm?token=1');
+    expect(second).toBe(first);
+    expect(getDownloadURL).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers URLs across page loads', async () => {
+    await (await load()).resolveClipUrl('games/g1/set.webm');
+    const { peekClipUrl, resolveClipUrl } = await load();
+    expect(peekClipUrl('games/g1/set.webm')).toBe('https://files.test/games/g1/set.webm?token=1');
+    await resolveClipUrl('games/g1/set.webm');
+    expect(getDownloadURL).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks a URL up again once it has been invalidated', async () => {
+    const { invalidateClipUrl, peekClipUrl, resolveClipUrl } = await load();
+    await resolveClipUrl('games/g1/set.webm');
+    invalidateClipUrl('games/g1/set.webm');
+    expect(peekClipUrl('games/g1/set.webm')).toBeUndefined();
+    await resolveClipUrl('games/g1/set.webm');
+    expect(getDownloadURL).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failed lookups', async () => {
+    const { resolveClipUrl } = await load();
+    getDownloadURL.mockRejectedValueOnce(new Error('storage/unauthorized'));
+    await expect(resolveClipUrl('games/g1/set.webm')).rejects.toThrow('storage/unauthorized');
+    await expect(resolveClipUrl('games/g1/set.webm')).resolves.toContain('token=1');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { compressClip, outputFormatFor } from '../../src/lib/compressClip';
+
+describe('outputFormatFor', () => {
+  it('keeps WebM takes in WebM', () => {
+    expect(outputFormatFor('video/webm;codecs=vp9,opus')).toMatchObject({
+      contentType: 'video/webm',
+      audioCodec: { encoder: 'opus' },
+    });
+  });
+
+  it('re-encodes Safari MP4 takes as H.264/AAC MP4 so their path still holds', () => {
+    const format = outputFormatFor('video/mp4');
+    expect(format?.contentType).toBe('video/mp4');
+    expect(format?.videoCodecs.every(({ encoder }) => encoder.startsWith('avc1.'))).toBe(true);
+    expect(format?.audioCodec.encoder).toBe('mp4a.40.2');
+  });
+
+  it('has nothing for other containers', () => {
+    expect(outputFormatFor('video/quicktime')).toBeUndefined();
+  });
+});
+
+describe('compressClip', () => {
+  it('hands back the original MP4 when the browser has no WebCodecs', async () => {
+    const blob = new Blob(['mp4'], { type: 'video/mp4' });
+    await expect(compressClip(blob)).resolves.toEqual({ blob, compressed: false });
+  });
+});
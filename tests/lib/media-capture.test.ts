@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CAPTURE,
+  formatForMimeType,
+  loadCaptureSettings,
+  pickRecordingFormat,
+  saveCaptureSettings,
+  videoConstraints,
+} from '../../src/lib/mediaCapture';
+
+describe('pickRecordingFormat', () => {
+  it('prefers VP9 WebM where the browser records it', () => {
+    expect(pickRecordingFormat(() => true)).toEqual({
+      mimeType: 'video/webm;codecs=vp9,opus',
+      contentType: 'video/webm',
+      extension: 'webm',
+    });
+  });
+
+  it('falls back to H.264 MP4 on Safari', () => {
+    const safari = (mimeType: string) => mimeType.startsWith('video/mp4');
+    expect(pickRecordingFormat(safari)).toMatchObject({
+      contentType: 'video/mp4',
+      extension: 'mp4',
+    });
+  });
+
+  it('leaves the choice to the recorder when nothing is supported', () => {
+    expect(pickRecordingFormat(() => false)).toBeUndefined();
+  });
+});
+
+describe('formatForMimeType', () => {
+  it('stores what the recorder actually produced', () => {
+    expect(formatForMimeType('video/mp4;codecs=avc1,mp4a')).toMatchObject({
+      contentType: 'video/mp4',
+      extension: 'mp4',
+    });
+    expect(formatForMimeType('video/x-matroska;codecs=avc1')).toMatchObject({
+      contentType: 'video/webm',
+      extension: 'webm',
+    });
+    expect(formatForMimeType('').mimeType).toBe('video/webm');
+  });
+});
+
+describe('videoConstraints', () => {
+  it('asks for the facing mode and preset without requiring either', () => {
+    expect(videoConstraints(DEFAULT_CAPTURE)).toEqual({
+      facingMode: { ideal: 'environment' },
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      frameRate: { ideal: 30 },
+    });
+  });
+
+  it('pins a picked camera by id', () => {
+    const constraints = videoConstraints({
+      ...DEFAULT_CAPTURE,
+      deviceId: 'usb-cam',
+      resolution: '1080p',
+      frameRate: 60,
+    });
+    expect(constraints).toMatchObject({
+      deviceId: { exact: 'usb-cam' },
+      width: { ideal: 1920 },
+      frameRate: { ideal: 60 },
+    });
+    expect(constraints).not.toHaveProperty('facingMode');
+  });
+});
+
+describe('capture settings persistence', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('round-trips the picked settings', () => {
+    const settings = { ...DEFAULT_CAPTURE, facingMode: 'user' as const, frameRate: 60 as const };
+    saveCaptureSettings(settings);
+    expect(loadCaptureSettings()).toEqual(settings);
+  });
+
+  it('ignores presets it no longer offers', () => {
+    window.localStorage.setItem(
+      'skatehubba:capture',
+      JSON.stringify({ resolution: '4k', frameRate: 120 })
+    );
+    expect(loadCaptureSettings()).toEqual(DEFAULT_CAPTURE);
+  });
+});
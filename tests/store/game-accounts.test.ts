@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mergeRatings,
+  mergeStats,
+  transferSeat,
+  withoutSharedGames,
+} from '../../src/game/accounts';
+import type { GameDocument } from '../../src/game/types';
+
+const game: GameDocument = {
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'RESP_RECORD',
+  players: {
+    A: { uid: 'guest', name: 'Alice', letters: 'S' },
+    B: { uid: 'bruno', name: 'Bruno', letters: '' },
+  },
+  current: { by: 'B' },
+  history: [],
+};
+
+describe('account merging', () => {
+  it('moves the guest’s seat and letters to the saved account', () => {
+    const next = transferSeat(game, 'guest', 'alice');
+    expect(next?.players.A).toEqual({ uid: 'alice', name: 'Alice', letters: 'S' });
+    expect(next?.players.B).toBe(game.players.B);
+    expect(game.players.A?.uid).toBe('guest');
+  });
+
+  it('leaves games the guest did not play, or the account already plays, alone', () => {
+    expect(transferSeat(game, 'stranger', 'alice')).toBeUndefined();
+    expect(transferSeat(game, 'guest', 'bruno')).toBeUndefined();
+  });
+
+  it('adds up both accounts’ stats', () => {
+    expect(mergeStats({ gamesPlayed: 3, gamesWon: 1 }, { gamesPlayed: 5, gamesWon: 4 })).toEqual({
+      gamesPlayed: 8,
+      gamesWon: 5,
+    });
+    expect(mergeStats(undefined, { gamesPlayed: 2 })).toEqual({ gamesPlayed: 2, gamesWon: 0 });
+  });
+
+  it('keeps the saved account’s rating and adds up recent standings', () => {
+    const guest = {
+      rating: 1250,
+      ratedGames: 2,
+      recent: { ratingChange: 50, gamesPlayed: 2, gamesWon: 2 },
+    };
+    const saved = {
+      rating: 1310,
+      ratedGames: 14,
+      recent: { ratingChange: -12, gamesPlayed: 3, gamesWon: 1 },
+    };
+    expect(mergeRatings(guest, saved)).toEqual({
+      rating: 1310,
+      ratedGames: 14,
+      recent: { ratingChange: 38, gamesPlayed: 5, gamesWon: 3 },
+    });
+    expect(mergeRatings(guest, { stats: { gamesPlayed: 0, gamesWon: 0 } })).toEqual(guest);
+    expect(mergeRatings(undefined, undefined)).toEqual({});
+  });
+
+  it('counts a game both accounts played only once', () => {
+    const now = '2026-05-31T12:00:00.000Z';
+    const guest = {
+      stats: { gamesPlayed: 3, gamesWon: 2 },
+      recent: { ratingChange: 30, gamesPlayed: 2, gamesWon: 1 },
+    };
+    // The guest beat the saved account last week, and lost to it before the window.
+    const shared = [
+      { gameId: 'g1', before: 1200, after: 1216, won: true, ts: '2026-05-24T12:00:00.000Z' },
+      { gameId: 'g2', before: 1216, after: 1200, won: false, ts: '2026-03-01T12:00:00.000Z' },
+    ];
+    expect(withoutSharedGames(guest, shared, now)).toEqual({
+      stats: { gamesPlayed: 1, gamesWon: 1 },
+      recent: { ratingChange: 14, gamesPlayed: 1, gamesWon: 0 },
+    });
+    expect(withoutSharedGames(guest, shared.slice(0, 1), now)?.recent?.gamesPlayed).toBe(1);
+    expect(withoutSharedGames({ ...guest, recent: undefined }, shared, now)).toEqual({
+      stats: { gamesPlayed: 1, gamesWon: 1 },
+      recent: undefined,
+    });
+    expect(withoutSharedGames(guest, [], now)).toBe(guest);
+  });
+});
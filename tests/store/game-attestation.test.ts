@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkAttestation,
+  checkNewSession,
+  checkOfflineSession,
+  readAttestation,
+  recordingSession,
+  renewRecordingSession,
+  toAttestationMetadata,
+  type AttestedClip,
+} from '../../src/game/attestation';
+import type { GameDocument } from '../../src/game/types';
+
+const ISSUED = '2024-03-01T12:00:00.000Z';
+const at = (seconds: number) => new Date(Date.parse(ISSUED) + seconds * 1000).toISOString();
+
+const game: GameDocument = {
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  clipLength: { setSeconds: 15, responseSeconds: 15 },
+  players: {
+    A: { uid: 'alice', name: 'Alice', letters: '' },
+    B: { uid: 'bruno', name: 'Bruno', letters: '' },
+  },
+  current: { by: 'A' },
+  history: [],
+};
+
+const session = recordingSession(game, 'alice', 'A', ISSUED);
+
+const liveClip = (overrides: Partial<AttestedClip> = {}): AttestedClip => ({
+  session,
+  attestation: { sessionId: 's1', startedAt: at(1), stoppedAt: at(9) },
+  uploaderUid: 'alice',
+  uploadedAt: at(20),
+  durationMs: 8000,
+  ...overrides,
+});
+
+const violationOf = (clip: AttestedClip, current: GameDocument = game) =>
+  checkAttestation(current, 'alice', 'A', clip)?.violation;
+
+describe('recording attestation', () => {
+  it('accepts a take recorded and uploaded inside its session', () => {
+    expect(violationOf(liveClip())).toBeUndefined();
+  });
+
+  it('round-trips through upload metadata', () => {
+    const attestation = { sessionId: 's1', startedAt: at(1), stoppedAt: at(9) };
+    expect(readAttestation(toAttestationMetadata(attestation))).toEqual(attestation);
+    expect(readAttestation({ uploaderUid: 'alice' })).toBeUndefined();
+    expect(
+      readAttestation(toAttestationMetadata({ ...attestation, sessionId: '../other' }))
+    ).toBeUndefined();
+  });
+
+  it('rejects clips without a session or with a spent one', () => {
+    expect(violationOf(liveClip({ attestation: undefined }))).toBe('unattested_clip');
+    expect(violationOf(liveClip({ session: undefined }))).toBe('unattested_clip');
+    expect(violationOf(liveClip({ session: { ...session, usedAt: at(30) } }))).toBe(
+      'unattested_clip'
+    );
+  });
+
+  it('rejects sessions from another player or turn', () => {
+    expect(violationOf(liveClip({ uploaderUid: 'bruno' }))).toBe('unattested_clip');
+    expect(violationOf(liveClip({ session: { ...session, uid: 'bruno' } }))).toBe(
+      'unattested_clip'
+    );
+    const nextTurn = {
+      ...game,
+      history: [{ by: 'A' as const, result: 'declined_set' as const, ts: at(60) }],
+    };
+    expect(violationOf(liveClip(), nextTurn)).toBe('unattested_clip');
+  });
+
+  it('rejects takes filmed before the session or uploaded after it expired', () => {
+    expect(
+      violationOf(
+        liveClip({ attestation: { sessionId: 's1', startedAt: at(-600), stoppedAt: at(9) } })
+      )
+    ).toBe('unattested_clip');
+    expect(violationOf(liveClip({ uploadedAt: at(60 * 60) }))).toBe('unattested_clip');
+    expect(violationOf(liveClip({ uploadedAt: at(2) }))).toBe('unattested_clip');
+  });
+
+  it('accepts a queued take uploaded after the window once the queue renews its session', () => {
+    const late = liveClip({ uploadedAt: at(60 * 60) });
+    expect(violationOf(late)).toBe('unattested_clip');
+    expect(
+      violationOf({ ...late, session: renewRecordingSession(session, at(60 * 60 - 30)) })
+    ).toBeUndefined();
+  });
+
+  it('accepts a take shot offline during the turn under a session claimed afterwards', () => {
+    // The phase began at 60s; its shot clock runs for the default day.
+    const nextTurn = {
+      ...game,
+      deadline: at(60 + 24 * 60 * 60),
+      history: [{ by: 'B' as const, result: 'declined_set' as const, ts: at(60) }],
+    };
+    const offline = recordingSession(nextTurn, 'alice', 'A', at(600), true);
+    const offlineClip = (startS: number, stopS: number) =>
+      liveClip({
+        session: offline,
+        attestation: { sessionId: 's2', startedAt: at(startS), stoppedAt: at(stopS) },
+        uploadedAt: at(630),
+      });
+    expect(violationOf(offlineClip(100, 108), nextTurn)).toBeUndefined();
+    // Filmed before the turn began, or after the session was claimed.
+    expect(violationOf(offlineClip(30, 38), nextTurn)).toBe('unattested_clip');
+    expect(violationOf(offlineClip(610, 618), nextTurn)).toBe('unattested_clip');
+  });
+
+  it("holds offline takes to the phase's shot clock, even on the first turn", () => {
+    const offlineClip = (current: GameDocument, startS: number) =>
+      violationOf(
+        {
+          ...liveClip({ uploadedAt: at(630) }),
+          session: recordingSession(current, 'alice', 'A', at(600), true),
+          attestation: { sessionId: 's2', startedAt: at(startS), stoppedAt: at(startS + 8) },
+        },
+        current
+      );
+    // Without a running clock there is no phase start to hold the take to.
+    expect(checkOfflineSession(game)?.violation).toBe('unattested_clip');
+    expect(offlineClip(game, 100)).toBe('unattested_clip');
+    expect(offlineClip(game, -7 * 24 * 60 * 60)).toBe('unattested_clip');
+    const started = { ...game, deadline: at(60 + 24 * 60 * 60) };
+    expect(checkOfflineSession(started)).toBeUndefined();
+    expect(offlineClip(started, 100)).toBeUndefined();
+    expect(offlineClip(started, -7 * 24 * 60 * 60)).toBe('unattested_clip');
+  });
+
+  it('rejects clips longer than the recording they came from', () => {
+    expect(violationOf(liveClip({ durationMs: 30000 }))).toBe('unattested_clip');
+    expect(
+      violationOf(
+        liveClip({ attestation: { sessionId: 's1', startedAt: at(1), stoppedAt: at(60) } })
+      )
+    ).toBe('unattested_clip');
+  });
+
+  it('issues one session per set unless the house allows retakes', () => {
+    expect(checkNewSession(game, [])).toBeUndefined();
+    expect(checkNewSession(game, [session])?.violation).toBe('retake_not_allowed');
+    expect(
+      checkNewSession({ ...game, houseRules: { setRetakes: true } }, [session])
+    ).toBeUndefined();
+    expect(checkNewSession({ ...game, phase: 'RESP_RECORD' }, [session])).toBeUndefined();
+  });
+});
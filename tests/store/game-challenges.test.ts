@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  challengeExpiresAt,
+  challengeGame,
+  checkAnswer,
+  isOpenChallenge,
+} from '../../src/game/challenges';
+import { DEFAULT_SHOT_CLOCK } from '../../src/game/rules';
+import type { ChallengeDocument } from '../../src/game/types';
+
+const sent = '2026-03-01T12:00:00.000Z';
+
+const challenge = (overrides: Partial<ChallengeDocument> = {}): ChallengeDocument => ({
+  challengerUid: 'alice',
+  challengerHandle: 'alice',
+  opponentUid: 'bruno',
+  opponentHandle: 'bruno_sk8',
+  trick: 'Kickflip',
+  status: 'pending',
+  expiresAt: challengeExpiresAt(sent),
+  ...overrides,
+});
+
+describe('direct challenges', () => {
+  it('waits two days for an answer', () => {
+    expect(challengeExpiresAt(sent)).toBe('2026-03-03T12:00:00.000Z');
+    expect(isOpenChallenge(challenge(), '2026-03-03T11:59:59.000Z')).toBe(true);
+    expect(isOpenChallenge(challenge(), '2026-03-03T12:00:00.000Z')).toBe(false);
+    expect(isOpenChallenge(challenge({ status: 'declined' }), sent)).toBe(false);
+  });
+
+  it('only lets the challenged skater answer an open challenge', () => {
+    expect(checkAnswer(challenge(), 'bruno', sent)).toBeUndefined();
+    expect(checkAnswer(challenge(), 'alice', sent)?.violation).toBe('not_challenged');
+    expect(checkAnswer(challenge({ status: 'accepted' }), 'bruno', sent)).toEqual({
+      violation: 'challenge_closed',
+      message: 'Challenge was already accepted',
+    });
+    expect(checkAnswer(challenge(), 'bruno', '2026-03-04T00:00:00.000Z')).toEqual({
+      violation: 'challenge_closed',
+      message: 'Challenge has expired',
+    });
+  });
+
+  it('seats the challenger as the first setter under both handles', () => {
+    const game = challengeGame(challenge(), { gameId: 'g1', code: 'WXYZ' }, sent);
+    expect(game).toMatchObject({
+      code: 'WXYZ',
+      turn: 'A',
+      phase: 'SET_RECORD',
+      order: ['A', 'B'],
+      current: { by: 'A' },
+      series: { id: 'g1', bestOf: 1, game: 1, wins: {} },
+    });
+    expect(game.players).toEqual({
+      A: { uid: 'alice', name: 'alice', letters: '' },
+      B: { uid: 'bruno', name: 'bruno_sk8', letters: '' },
+    });
+    expect(Date.parse(game.deadline as string) - Date.parse(sent)).toBe(
+      DEFAULT_SHOT_CLOCK.recordSeconds * 1000
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FRAME_HEIGHT,
+  FRAME_WIDTH,
+  duplicateViolation,
+  findDuplicate,
+  fingerprintDistance,
+  fingerprintKeys,
+  fingerprintOf,
+  frameHash,
+} from '../../src/game/duplicates';
+import type { ClipDocument } from '../../src/game/types';
+
+// A frame whose brightness follows `shade` across each row, so its hash depends on the pattern.
+const frame = (shade: (row: number, column: number) => number) =>
+  Array.from({ length: FRAME_WIDTH * FRAME_HEIGHT }, (_, index) =>
+    shade(Math.floor(index / FRAME_WIDTH), index % FRAME_WIDTH)
+  );
+
+// Eight frames of seeded noise: the same seed is the same footage, different seeds are unrelated.
+const footage = (seed: number) => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state % 256;
+  };
+  return fingerprintOf(Array.from({ length: 8 }, () => frame(next)));
+};
+
+const clip = (overrides: Partial<ClipDocument>): ClipDocument => ({
+  gameId: 'g1',
+  storagePath: 'games/g1/alice/1-set_record-A.webm',
+  ownerUid: 'alice',
+  contentType: 'video/webm',
+  sizeBytes: 1024,
+  durationMs: 8000,
+  thumbPath: 'thumbnails/games/g1/alice/1-set_record-A.jpg',
+  ...overrides,
+});
+
+describe('clip fingerprints', () => {
+  it('hashes a frame by its horizontal gradients', () => {
+    expect(frameHash(frame((_, column) => 200 - column * 10))).toBe('ffffffffffffffff');
+    expect(frameHash(frame((_, column) => column * 10))).toBe('0000000000000000');
+  });
+
+  it('skips flat frames that carry no picture', () => {
+    expect(frameHash(frame(() => 0))).toBeUndefined();
+    expect(fingerprintOf([frame(() => 255), frame((_, column) => column * 10)])).toEqual([
+      '0000000000000000',
+    ]);
+  });
+
+  it('measures footage against its nearest frames', () => {
+    const original = footage(1);
+    expect(fingerprintDistance(original, [...original].reverse())).toBe(0);
+    expect(fingerprintDistance(original, footage(40))).toBeGreaterThan(6);
+    expect(fingerprintDistance(original.slice(0, 3), original)).toBe(Infinity);
+  });
+
+  it('keys every band of every frame', () => {
+    const keys = fingerprintKeys(['0123456789abcdef']);
+    expect(keys).toEqual(['0:0123', '1:4567', '2:89ab', '3:cdef']);
+  });
+});
+
+describe('findDuplicate', () => {
+  const upload = {
+    gameId: 'g2',
+    storagePath: 'games/g2/bruno/9-set_record-B.webm',
+    contentHash: 'abc',
+    fingerprint: footage(1),
+  };
+
+  it('prefers a byte-identical copy over a lookalike', () => {
+    const lookalike = clip({ storagePath: 'games/g1/alice/a.webm', fingerprint: footage(1) });
+    const copy = clip({ storagePath: 'games/g1/alice/b.webm', contentHash: 'abc' });
+    expect(findDuplicate(upload, [lookalike, copy])).toEqual({
+      storagePath: 'games/g1/alice/b.webm',
+      gameId: 'g1',
+      ownerUid: 'alice',
+      kind: 'exact',
+    });
+    expect(findDuplicate(upload, [lookalike])?.kind).toBe('similar');
+    expect(findDuplicate(upload, [clip({ fingerprint: footage(40) })])).toBeUndefined();
+  });
+
+  it('ignores the clip itself and copies made by the path migration', () => {
+    const itself = clip({ ...upload });
+    const migrated = clip({ ...upload, storagePath: 'games/g2/9-set_record-B.webm' });
+    expect(findDuplicate(upload, [itself, migrated])).toBeUndefined();
+  });
+
+  it('only refuses exact copies', () => {
+    const match = { storagePath: 'games/g1/alice/a.webm', gameId: 'g1' };
+    expect(duplicateViolation({ ...match, kind: 'exact' })?.violation).toBe('duplicate_clip');
+    expect(duplicateViolation({ ...match, kind: 'similar' })).toBeUndefined();
+    expect(duplicateViolation(undefined)).toBeUndefined();
+  });
+});
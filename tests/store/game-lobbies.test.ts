@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { isJoinableLobby, lobbyStatus, lobbyUpdate, openLobby } from '../../src/game/lobbies';
+import { addPlayer } from '../../src/game/rules';
+import type { GameDocument } from '../../src/game/types';
+
+const opened = '2026-05-01T18:00:00.000Z';
+
+const game: GameDocument = {
+  code: 'LBBY',
+  word: 'SKATE',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  players: { A: { uid: 'host', name: 'Host', letters: '' } },
+  order: ['A'],
+  current: { by: 'A' },
+  history: [],
+  series: { id: 'g1', bestOf: 3, game: 1, wins: {} },
+};
+
+const lobby = openLobby(game, 'g1', { allowSpectators: true }, opened);
+
+describe('public lobbies', () => {
+  it('lists a new game under its host', () => {
+    expect(lobby).toEqual({
+      gameId: 'g1',
+      code: 'LBBY',
+      hostUid: 'host',
+      hostName: 'Host',
+      word: 'SKATE',
+      bestOf: 3,
+      status: 'open',
+      allowSpectators: true,
+      openedAt: opened,
+    });
+  });
+
+  it('only matches players into fresh lobbies someone else opened', () => {
+    expect(isJoinableLobby(lobby, 'guest', '2026-05-01T18:29:00.000Z')).toBe(true);
+    expect(isJoinableLobby(lobby, 'host', '2026-05-01T18:01:00.000Z')).toBe(false);
+    expect(isJoinableLobby(lobby, 'guest', '2026-05-01T18:30:00.000Z')).toBe(false);
+    expect(isJoinableLobby({ ...lobby, status: 'inProgress' }, 'guest', opened)).toBe(false);
+  });
+
+  it('stops taking players once a second one sits down, and closes when the game ends', () => {
+    expect(lobbyStatus(lobby, game)).toBe('open');
+    const joined = addPlayer(game, 'guest', 'Guest', opened) as GameDocument;
+    expect(lobbyStatus(lobby, joined)).toBe('inProgress');
+    expect(lobbyStatus(lobby, { ...joined, winner: 'B' })).toBe('closed');
+    expect(lobbyStatus({ ...lobby, status: 'closed' }, joined)).toBe('closed');
+  });
+
+  it('stamps each move on a live lobby, so the cleanup finds the quiet ones', () => {
+    const joined = addPlayer(game, 'guest', 'Guest', opened) as GameDocument;
+    const moved = '2026-05-01T18:05:00.000Z';
+    expect(lobbyUpdate(lobby, game, moved)).toBeUndefined();
+    expect(lobbyUpdate(lobby, joined, opened)).toEqual({ status: 'inProgress', activeAt: opened });
+    const live = { ...lobby, status: 'inProgress' as const, activeAt: opened };
+    expect(lobbyUpdate(live, joined, moved)).toEqual({ activeAt: moved });
+    expect(lobbyUpdate(live, { ...joined, winner: 'B' }, moved)).toEqual({ status: 'closed' });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clipFileName,
+  clipFolder,
+  clipPath,
+  migrateClipPaths,
+  parseClipPath,
+  reelPath,
+  thumbnailPathFor,
+} from '../../src/game/paths';
+import type { GameDocument } from '../../src/game/types';
+
+const TS = '2024-03-01T12:00:00.000Z';
+
+const players = {
+  A: { uid: 'alice', name: 'Alice', letters: '' },
+  B: { uid: 'bruno', name: 'Bruno', letters: 'S' },
+};
+
+const game = (overrides: Partial<GameDocument>): GameDocument => ({
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  players,
+  current: { by: 'A' },
+  history: [],
+  ...overrides,
+});
+
+describe('clip paths', () => {
+  it('files clips under the game and the shooter', () => {
+    const fileName = clipFileName('SET_RECORD', 'A', 'webm', 1700000000000);
+    expect(fileName).toBe('1700000000000-set_record-A.webm');
+    const path = clipPath({ gameId: 'g1', uid: 'alice', fileName });
+    expect(path).toBe('games/g1/alice/1700000000000-set_record-A.webm');
+    expect(parseClipPath(path)).toEqual({ gameId: 'g1', uid: 'alice', fileName });
+    expect(path.startsWith(clipFolder('g1', 'alice'))).toBe(true);
+  });
+
+  it('refuses paths storage.rules would not accept', () => {
+    expect(() => clipPath({ gameId: 'g1', uid: 'alice', fileName: 'set.avi' })).toThrow();
+    expect(() => clipPath({ gameId: 'g1', uid: '../bruno', fileName: 'set.webm' })).toThrow();
+    expect(parseClipPath('games/g1/set.webm')).toBeUndefined();
+    expect(parseClipPath('challenges/g1/alice/set.webm')).toBeUndefined();
+    expect(parseClipPath('games/g1/alice/extra/set.webm')).toBeUndefined();
+    expect(parseClipPath('games/g1/alice/.webm')).toBeUndefined();
+  });
+
+  it('derives thumbnail and reel locations', () => {
+    expect(thumbnailPathFor('games/g1/alice/set.webm')).toBe('thumbnails/games/g1/alice/set.jpg');
+    expect(reelPath('g1')).toBe('reels/g1.mp4');
+  });
+});
+
+describe('migrateClipPaths', () => {
+  it('moves every legacy layout into the shooter’s folder', () => {
+    const { game: migrated, moves } = migrateClipPaths(
+      'g1',
+      game({
+        phase: 'RESP_JUDGE',
+        current: {
+          by: 'B',
+          setVideoPath: 'games/g1/3.webm',
+          responseVideoPath: 'games/g1/B/4.mp4',
+        },
+        history: [
+          { by: 'A', result: 'declined_set', setPath: 'games/g1/1.webm', ts: TS },
+          {
+            by: 'B',
+            result: 'failed',
+            letter: 'S',
+            setPath: 'challenges/g1/bruno/2.webm',
+            respPath: 'games/g1/A/2r.webm',
+            ts: TS,
+          },
+        ],
+      })
+    );
+
+    expect(migrated.history).toEqual([
+      { by: 'A', result: 'declined_set', setPath: 'games/g1/alice/1.webm', ts: TS },
+      {
+        by: 'B',
+        result: 'failed',
+        letter: 'S',
+        setPath: 'games/g1/bruno/2.webm',
+        respPath: 'games/g1/alice/2r.webm',
+        ts: TS,
+      },
+    ]);
+    expect(migrated.current).toEqual({
+      by: 'B',
+      setVideoPath: 'games/g1/alice/3.webm',
+      responseVideoPath: 'games/g1/bruno/4.mp4',
+    });
+    expect(moves).toHaveLength(5);
+  });
+
+  it('copies a set shared by several entries once', () => {
+    const { moves } = migrateClipPaths(
+      'g1',
+      game({
+        history: [
+          { by: 'A', result: 'approved_set', setPath: 'games/g1/set.webm', ts: TS },
+          {
+            by: 'A',
+            responder: 'B',
+            result: 'landed',
+            setPath: 'games/g1/set.webm',
+            respPath: 'games/g1/resp.webm',
+            ts: TS,
+          },
+        ],
+      })
+    );
+    expect(moves).toEqual([
+      { from: 'games/g1/set.webm', to: 'games/g1/alice/set.webm' },
+      { from: 'games/g1/resp.webm', to: 'games/g1/bruno/resp.webm' },
+    ]);
+  });
+
+  it('leaves canonical and foreign paths alone', () => {
+    const history = [
+      {
+        by: 'A' as const,
+        result: 'declined_set' as const,
+        setPath: 'games/g1/alice/1.webm',
+        ts: TS,
+      },
+      { by: 'B' as const, result: 'declined_set' as const, setPath: 'games/other/2.webm', ts: TS },
+    ];
+    const { game: migrated, moves } = migrateClipPaths('g1', game({ history }));
+    expect(migrated.history).toEqual(history);
+    expect(moves).toEqual([]);
+  });
+});
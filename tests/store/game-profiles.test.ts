@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatRecord,
+  gameOutcome,
+  isAvatarUrl,
+  normalizeHandle,
+  playerUids,
+} from '../../src/game/profiles';
+import type { GameDocument } from '../../src/game/types';
+
+const game = (overrides: Partial<GameDocument> = {}): GameDocument => ({
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  players: {
+    A: { uid: 'alice', name: 'Alice', letters: 'SK' },
+    B: { uid: 'bruno', name: 'Bruno', letters: 'SK8', eliminated: true },
+    C: { uid: 'carla', name: 'Carla', letters: 'S' },
+  },
+  current: { by: 'A' },
+  history: [],
+  ...overrides,
+});
+
+describe('profile handles', () => {
+  it('normalizes handles to lowercase without the @', () => {
+    expect(normalizeHandle('  @Sk8_Alice ')).toBe('sk8_alice');
+    expect(normalizeHandle('abc')).toBe('abc');
+  });
+
+  it('rejects handles that cannot be a profile address', () => {
+    expect(normalizeHandle('ab')).toBeUndefined();
+    expect(normalizeHandle('a'.repeat(21))).toBeUndefined();
+    expect(normalizeHandle('alice/../bruno')).toBeUndefined();
+    expect(normalizeHandle('alice bruno')).toBeUndefined();
+  });
+
+  it('only links https avatars', () => {
+    expect(isAvatarUrl('https://images.test/alice.jpg')).toBe(true);
+    expect(isAvatarUrl('http://images.test/alice.jpg')).toBe(false);
+    expect(isAvatarUrl('javascript:alert(1)')).toBe(false);
+    expect(isAvatarUrl('not a url')).toBe(false);
+  });
+});
+
+describe('profile stats', () => {
+  it('lists every seated player, eliminated or not', () => {
+    expect(playerUids(game())).toEqual(['alice', 'bruno', 'carla']);
+  });
+
+  it('describes a game from one player’s side', () => {
+    expect(gameOutcome(game(), 'alice')).toBe('playing');
+    expect(gameOutcome(game({ winner: 'A' }), 'alice')).toBe('won');
+    expect(gameOutcome(game({ winner: 'A' }), 'bruno')).toBe('lost');
+    expect(formatRecord({ gamesPlayed: 16, gamesWon: 12 })).toBe('12-4');
+  });
+});
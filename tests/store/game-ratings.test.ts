@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INITIAL_RATING,
+  PROVISIONAL_GAMES,
+  expectedScore,
+  formatRatingDelta,
+  rateGame,
+  recentStanding,
+} from '../../src/game/ratings';
+import type { GameDocument, RatingHistoryEntry } from '../../src/game/types';
+
+const game = (overrides: Partial<GameDocument> = {}): GameDocument => ({
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  players: {
+    A: { uid: 'alice', name: 'Alice', letters: '' },
+    B: { uid: 'bruno', name: 'Bruno', letters: 'SK8', eliminated: true },
+  },
+  current: { by: 'A' },
+  history: [],
+  winner: 'A',
+  ...overrides,
+});
+
+const established = (rating: number) => ({ rating, ratedGames: PROVISIONAL_GAMES });
+
+describe('ratings', () => {
+  it('expects the stronger player to win', () => {
+    expect(expectedScore(1200, 1200)).toBe(0.5);
+    expect(expectedScore(1400, 1200)).toBeGreaterThan(0.75);
+  });
+
+  it('starts new players at the initial rating and moves them quickly', () => {
+    expect(rateGame(game(), {})).toEqual({
+      A: { before: INITIAL_RATING, after: INITIAL_RATING + 24 },
+      B: { before: INITIAL_RATING, after: INITIAL_RATING - 24 },
+    });
+  });
+
+  it('rewards upsets more than expected wins', () => {
+    const upset = rateGame(game(), { A: established(1100), B: established(1400) });
+    const expected = rateGame(game(), { A: established(1400), B: established(1100) });
+    expect(upset.A!.after - upset.A!.before).toBeGreaterThan(
+      expected.A!.after - expected.A!.before
+    );
+    expect(upset.B!.after).toBeLessThan(1400);
+  });
+
+  it('splits a multi-player game into pairings with the winner', () => {
+    const changes = rateGame(
+      game({
+        winner: 'C',
+        players: {
+          A: { uid: 'alice', name: 'Alice', letters: 'SK8', eliminated: true },
+          B: { uid: 'bruno', name: 'Bruno', letters: 'SK8', eliminated: true },
+          C: { uid: 'carla', name: 'Carla', letters: 'S' },
+        },
+      }),
+      { A: established(1200), B: established(1200), C: established(1200) }
+    );
+    expect(changes).toEqual({
+      A: { before: 1200, after: 1194 },
+      B: { before: 1200, after: 1194 },
+      C: { before: 1200, after: 1212 },
+    });
+  });
+
+  it('leaves games in play unrated', () => {
+    expect(rateGame(game({ winner: undefined }), {})).toEqual({});
+  });
+
+  it('sums the rolling window and drops older games', () => {
+    const entry = (ts: string, before: number, after: number): RatingHistoryEntry => ({
+      gameId: ts,
+      ts,
+      before,
+      after,
+      won: after > before,
+    });
+    const now = '2024-03-31T12:00:00.000Z';
+    expect(
+      recentStanding(
+        [
+          entry('2024-02-01T00:00:00.000Z', 1200, 1224),
+          entry('2024-03-10T00:00:00.000Z', 1224, 1240),
+          entry('2024-03-30T00:00:00.000Z', 1240, 1230),
+        ],
+        now
+      )
+    ).toEqual({ ratingChange: 6, gamesPlayed: 2, gamesWon: 1 });
+    expect(recentStanding([entry('2024-01-01T00:00:00.000Z', 1200, 1224)], now)).toBeUndefined();
+    expect(formatRatingDelta({ before: 1200, after: 1212 })).toBe('+12');
+    expect(formatRatingDelta({ before: 1200, after: 1194 })).toBe('−6');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { isRenderingReel, reelSegments } from '../../src/game/reel';
+import type { GameDocument } from '../../src/game/types';
+
+const TS = '2024-03-01T12:00:00.000Z';
+
+const finished: GameDocument = {
+  code: 'ABCD',
+  word: 'SK8',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  winner: 'A',
+  players: {
+    A: { uid: 'alice', name: 'Alice', letters: '' },
+    B: { uid: 'bruno', name: 'Bruno', letters: 'SK8', eliminated: true },
+    C: { uid: 'cleo', name: 'Cleo', letters: 'SK8', eliminated: true },
+  },
+  order: ['A'],
+  current: { by: 'A' },
+  history: [
+    { by: 'A', result: 'declined_set', setPath: 'games/g1/1.webm', ts: TS },
+    { by: 'B', result: 'approved_set', setPath: 'games/g1/2.webm', ts: TS },
+    {
+      by: 'B',
+      responder: 'C',
+      result: 'failed',
+      letter: 'S',
+      setPath: 'games/g1/2.webm',
+      respPath: 'games/g1/3.webm',
+      ts: TS,
+    },
+    { by: 'B', responder: 'A', result: 'landed', setPath: 'games/g1/2.webm', ts: TS },
+  ],
+};
+
+describe('reelSegments', () => {
+  it('cuts a title card before every clip in play order', () => {
+    expect(reelSegments(finished)).toEqual([
+      { type: 'card', lines: ['Alice vs Bruno vs Cleo', 'Game of S.K.8'] },
+      { type: 'card', lines: ['Trick 1', 'Alice sets', 'Set declined'] },
+      { type: 'clip', storagePath: 'games/g1/1.webm' },
+      { type: 'card', lines: ['Trick 2', 'Bruno sets', 'Set approved'] },
+      { type: 'clip', storagePath: 'games/g1/2.webm' },
+      { type: 'card', lines: ['Trick 2', 'Cleo responds', 'Missed, takes S'] },
+      { type: 'clip', storagePath: 'games/g1/3.webm' },
+      { type: 'card', lines: ['Trick 2', 'Alice responds', 'Landed'] },
+      { type: 'card', lines: ['Alice wins'] },
+    ]);
+  });
+
+  it('marks the letter that knocked a player out', () => {
+    const knockout: GameDocument = {
+      ...finished,
+      history: [
+        {
+          by: 'A',
+          responder: 'B',
+          result: 'failed',
+          letter: '8',
+          eliminated: true,
+          respPath: 'games/g1/4.webm',
+          ts: TS,
+        },
+      ],
+    };
+    expect(reelSegments(knockout)[1]).toEqual({
+      type: 'card',
+      lines: ['Trick 1', 'Bruno responds', 'Missed, takes 8 and is out'],
+    });
+  });
+
+  it('holds a render claim only as long as the function may run', () => {
+    const claimed = { ...finished, reelRenderingAt: TS };
+    const after = (seconds: number) => new Date(Date.parse(TS) + seconds * 1000).toISOString();
+    expect(isRenderingReel(finished, TS)).toBe(false);
+    expect(isRenderingReel(claimed, after(539))).toBe(true);
+    expect(isRenderingReel(claimed, after(540))).toBe(false);
+  });
+});
@@ -0,0 +1,652 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPlayer,
+  applyMove,
+  applyTimeout,
+  canMove,
+  canRetake,
+  checkMove,
+  clipLimitMs,
+  DEFAULT_SHOT_CLOCK,
+  formatWord,
+  gameWord,
+  isRuleViolation,
+  judgeOf,
+  MAX_PLAYERS,
+  normalizeWord,
+  rematchGame,
+  seriesScore,
+  seriesWinner,
+  startShotClock,
+  type Move,
+  type RuleViolationCode,
+} from '../../src/game/rules';
+import type { GameDocument, PlayerSlot } from '../../src/game/types';
+
+const TS = '2024-03-01T12:00:00.000Z';
+
+const baseGame: GameDocument = {
+  code: 'ABCD',
+  turn: 'A',
+  phase: 'SET_RECORD',
+  players: {
+    A: { uid: 'alice', name: 'Alice', letters: '' },
+    B: { uid: 'bruno', name: 'Bruno', letters: '' },
+  },
+  current: { by: 'A' },
+  history: [],
+};
+
+const setJudge: GameDocument = {
+  ...baseGame,
+  phase: 'SET_JUDGE',
+  current: { by: 'A', setVideoPath: 'games/g1/set.webm' },
+};
+
+const respRecord: GameDocument = {
+  ...baseGame,
+  phase: 'RESP_RECORD',
+  current: { by: 'B', setVideoPath: 'games/g1/set.webm' },
+};
+
+const respJudge: GameDocument = {
+  ...baseGame,
+  phase: 'RESP_JUDGE',
+  current: {
+    by: 'B',
+    setVideoPath: 'games/g1/set.webm',
+    responseVideoPath: 'games/g1/resp.webm',
+  },
+};
+
+const apply = (game: GameDocument, actor: PlayerSlot | undefined, move: Move) => {
+  const next = applyMove(game, actor, move, TS);
+  if (isRuleViolation(next)) {
+    throw new Error(`Unexpected violation: ${next.violation}`);
+  }
+  return next;
+};
+
+describe('applyMove transitions', () => {
+  it.each<{
+    name: string;
+    game: GameDocument;
+    actor: PlayerSlot;
+    move: Move;
+    expected: Partial<GameDocument>;
+  }>([
+    {
+      name: 'setter submits a set clip',
+      game: baseGame,
+      actor: 'A',
+      move: { type: 'submitSet', storagePath: 'games/g1/set.webm' },
+      expected: {
+        phase: 'SET_JUDGE',
+        turn: 'A',
+        current: { by: 'A', setVideoPath: 'games/g1/set.webm' },
+        history: [],
+      },
+    },
+    {
+      name: 'judge approves the set',
+      game: setJudge,
+      actor: 'B',
+      move: { type: 'judgeSet', approve: true },
+      expected: {
+        phase: 'RESP_RECORD',
+        turn: 'A',
+        current: { by: 'B', setVideoPath: 'games/g1/set.webm' },
+        history: [{ by: 'A', result: 'approved_set', setPath: 'games/g1/set.webm', ts: TS }],
+      },
+    },
+    {
+      name: 'judge declines the set and the turn passes',
+      game: setJudge,
+      actor: 'B',
+      move: { type: 'judgeSet', approve: false },
+      expected: {
+        phase: 'SET_RECORD',
+        turn: 'B',
+        current: { by: 'B' },
+        history: [{ by: 'A', result: 'declined_set', setPath: 'games/g1/set.webm', ts: TS }],
+      },
+    },
+    {
+      name: 'setter self-fails the set and the turn passes',
+      game: baseGame,
+      actor: 'A',
+      move: { type: 'selfFailSet' },
+      expected: {
+        phase: 'SET_RECORD',
+        turn: 'B',
+        current: { by: 'B' },
+        history: [{ by: 'A', result: 'declined_set', ts: TS }],
+      },
+    },
+    {
+      name: 'responder submits a response clip',
+      game: respRecord,
+      actor: 'B',
+      move: { type: 'submitResponse', storagePath: 'games/g1/resp.webm' },
+      expected: {
+        phase: 'RESP_JUDGE',
+        turn: 'A',
+        current: respJudge.current,
+        history: [],
+      },
+    },
+    {
+      name: 'setter marks the response landed',
+      game: respJudge,
+      actor: 'A',
+      move: { type: 'judgeResponse', approve: true },
+      expected: {
+        phase: 'SET_RECORD',
+        turn: 'A',
+        current: { by: 'A' },
+        players: baseGame.players,
+        history: [
+          {
+            by: 'A',
+            result: 'landed',
+            setPath: 'games/g1/set.webm',
+            respPath: 'games/g1/resp.webm',
+            ts: TS,
+          },
+        ],
+      },
+    },
+    {
+      name: 'setter marks the response failed and the responder takes a letter',
+      game: respJudge,
+      actor: 'A',
+      move: { type: 'judgeResponse', approve: false },
+      expected: {
+        phase: 'SET_RECORD',
+        turn: 'A',
+        current: { by: 'A' },
+        players: { ...baseGame.players, B: { uid: 'bruno', name: 'Bruno', letters: 'S' } },
+        history: [
+          {
+            by: 'A',
+            result: 'failed',
+            letter: 'S',
+            setPath: 'games/g1/set.webm',
+            respPath: 'games/g1/resp.webm',
+            ts: TS,
+          },
+        ],
+      },
+    },
+    {
+      name: 'responder self-fails and takes a letter',
+      game: respRecord,
+      actor: 'B',
+      move: { type: 'selfFailResponse' },
+      expected: {
+        phase: 'SET_RECORD',
+        turn: 'A',
+        current: { by: 'A' },
+        players: { ...baseGame.players, B: { uid: 'bruno', name: 'Bruno', letters: 'S' } },
+        history: [{ by: 'A', result: 'failed', letter: 'S', setPath: 'games/g1/set.webm', ts: TS }],
+      },
+    },
+  ])('$name', ({ game, actor, move, expected }) => {
+    const next = apply(game, actor, move);
+    expect(next).toMatchObject(expected);
+    expect(next.winner).toBeUndefined();
+  });
+
+  it('declares the setter the winner when the responder completes S.K.8', () => {
+    const game: GameDocument = {
+      ...respJudge,
+      players: { ...baseGame.players, B: { uid: 'bruno', name: 'Bruno', letters: 'SK' } },
+    };
+    const next = apply(game, 'A', { type: 'judgeResponse', approve: false });
+    expect(next.players.B?.letters).toBe('SK8');
+    expect(next.winner).toBe('A');
+  });
+
+  it('plays to the configured word instead of S.K.8', () => {
+    const game: GameDocument = {
+      ...respJudge,
+      word: 'SKATE',
+      players: { ...baseGame.players, B: { uid: 'bruno', name: 'Bruno', letters: 'SKA' } },
+    };
+    const next = apply(game, 'A', { type: 'judgeResponse', approve: false });
+    expect(next.players.B?.letters).toBe('SKAT');
+    expect(next.history.at(-1)?.letter).toBe('T');
+    expect(next.winner).toBeUndefined();
+
+    const last = apply(
+      { ...game, players: { ...game.players, B: { ...game.players.B!, letters: 'SKAT' } } },
+      'A',
+      { type: 'judgeResponse', approve: false }
+    );
+    expect(last.players.B?.letters).toBe('SKATE');
+    expect(last.winner).toBe('A');
+  });
+
+  it('does not mutate the input game', () => {
+    const snapshot = JSON.parse(JSON.stringify(respJudge));
+    apply(respJudge, 'A', { type: 'judgeResponse', approve: false });
+    expect(respJudge).toEqual(snapshot);
+  });
+
+  it('plays a full game through to a winner', () => {
+    let game = baseGame;
+    for (let round = 0; round < 3; round += 1) {
+      game = apply(game, 'A', { type: 'submitSet', storagePath: `games/g1/set-${round}.webm` });
+      game = apply(game, 'B', { type: 'judgeSet', approve: true });
+      game = apply(game, 'B', { type: 'submitResponse', storagePath: `games/g1/r-${round}.webm` });
+      game = apply(game, 'A', { type: 'judgeResponse', approve: false });
+    }
+    expect(game.winner).toBe('A');
+    expect(game.players.B?.letters).toBe('SK8');
+    expect(game.history.map((entry) => entry.result)).toEqual([
+      'approved_set',
+      'failed',
+      'approved_set',
+      'failed',
+      'approved_set',
+      'failed',
+    ]);
+  });
+});
+
+describe('letter words', () => {
+  it.each([
+    ['SK8', 'SK8'],
+    ['s.k.a.t.e', 'SKATE'],
+    [' horse ', 'HORSE'],
+    ['X', undefined],
+    ['SUPERCALIFRAGILISTIC', undefined],
+    ['...', undefined],
+  ])('normalizes %j to %j', (input, expected) => {
+    expect(normalizeWord(input)).toBe(expected);
+  });
+
+  it('falls back to S.K.8 for games without a word', () => {
+    expect(gameWord(baseGame)).toBe('SK8');
+    expect(formatWord(gameWord({ word: 'SKATE' }))).toBe('S.K.A.T.E');
+  });
+});
+
+describe('shot clock', () => {
+  const LATER = '2024-03-02T12:00:00.000Z';
+  const expired = (game: GameDocument): GameDocument => ({ ...game, deadline: TS });
+
+  it('restarts the clock for the next phase on every move', () => {
+    const judging = apply(baseGame, 'A', { type: 'submitSet', storagePath: 'games/g1/set.webm' });
+    expect(judging.deadline).toBe('2024-03-02T00:00:00.000Z');
+
+    const recording = apply(judging, 'B', { type: 'judgeSet', approve: true });
+    expect(recording.deadline).toBe('2024-03-02T12:00:00.000Z');
+  });
+
+  it('uses per-game durations and clears the clock once there is a winner', () => {
+    const game: GameDocument = {
+      ...respJudge,
+      shotClock: { recordSeconds: 60, judgeSeconds: 30, defaultVerdict: 'decline' },
+      deadline: TS,
+    };
+    expect(startShotClock(game, TS).deadline).toBe('2024-03-01T12:00:30.000Z');
+
+    const won = apply(
+      { ...game, players: { ...game.players, B: { ...game.players.B!, letters: 'SK' } } },
+      'A',
+      { type: 'judgeResponse', approve: false }
+    );
+    expect(won.winner).toBe('A');
+    expect(won).not.toHaveProperty('deadline');
+  });
+
+  it.each<{ name: string; game: GameDocument; expected: Partial<GameDocument> }>([
+    {
+      name: 'an idle setter self-fails and loses the turn',
+      game: expired(baseGame),
+      expected: { phase: 'SET_RECORD', turn: 'B' },
+    },
+    {
+      name: 'an idle set judge approves by default',
+      game: expired(setJudge),
+      expected: { phase: 'RESP_RECORD', turn: 'A' },
+    },
+    {
+      name: 'an idle set judge declines when the game says so',
+      game: expired({
+        ...setJudge,
+        shotClock: { ...DEFAULT_SHOT_CLOCK, defaultVerdict: 'decline' },
+      }),
+      expected: { phase: 'SET_RECORD', turn: 'B' },
+    },
+    {
+      name: 'an idle responder self-fails and takes a letter',
+      game: expired(respRecord),
+      expected: {
+        phase: 'SET_RECORD',
+        players: { ...baseGame.players, B: { ...baseGame.players.B!, letters: 'S' } },
+      },
+    },
+    {
+      name: 'an idle response judge marks it landed by default',
+      game: expired(respJudge),
+      expected: { phase: 'SET_RECORD', players: baseGame.players },
+    },
+  ])('$name', ({ game, expected }) => {
+    const next = applyTimeout(game, LATER);
+    if (isRuleViolation(next)) {
+      throw new Error(`Unexpected violation: ${next.violation}`);
+    }
+    expect(next).toMatchObject(expected);
+    expect(next.history.at(-1)?.timedOut).toBe(true);
+    expect(next.deadline).toBeDefined();
+  });
+
+  it('leaves phases with time on the clock alone', () => {
+    expect(applyTimeout({ ...baseGame, deadline: LATER }, TS)).toMatchObject({
+      violation: 'not_expired',
+    });
+    expect(applyTimeout(baseGame, TS)).toMatchObject({ violation: 'not_expired' });
+  });
+});
+
+describe('applyMove violations', () => {
+  const finished: GameDocument = { ...baseGame, winner: 'A' };
+  const waiting: GameDocument = { ...baseGame, players: { A: baseGame.players.A } };
+
+  it.each<{
+    name: string;
+    game: GameDocument;
+    actor: PlayerSlot | undefined;
+    move: Move;
+    violation: RuleViolationCode;
+  }>([
+    {
+      name: 'moves after the game is won',
+      game: finished,
+      actor: 'A',
+      move: { type: 'selfFailSet' },
+      violation: 'game_over',
+    },
+    {
+      name: 'setting before an opponent joins',
+      game: waiting,
+      actor: 'A',
+      move: { type: 'submitSet', storagePath: 'games/g1/set.webm' },
+      violation: 'waiting_for_opponent',
+    },
+    {
+      name: 'spectators',
+      game: baseGame,
+      actor: undefined,
+      move: { type: 'selfFailSet' },
+      violation: 'not_a_player',
+    },
+    {
+      name: 'judging a set during SET_RECORD',
+      game: baseGame,
+      actor: 'B',
+      move: { type: 'judgeSet', approve: true },
+      violation: 'wrong_phase',
+    },
+    {
+      name: 'submitting a response during SET_JUDGE',
+      game: setJudge,
+      actor: 'B',
+      move: { type: 'submitResponse', storagePath: 'games/g1/resp.webm' },
+      violation: 'wrong_phase',
+    },
+    {
+      name: 'the judge recording the set',
+      game: baseGame,
+      actor: 'B',
+      move: { type: 'submitSet', storagePath: 'games/g1/set.webm' },
+      violation: 'not_shooter',
+    },
+    {
+      name: 'the setter approving their own set',
+      game: setJudge,
+      actor: 'A',
+      move: { type: 'judgeSet', approve: true },
+      violation: 'not_judge',
+    },
+    {
+      name: 'the setter recording the response',
+      game: respRecord,
+      actor: 'A',
+      move: { type: 'submitResponse', storagePath: 'games/g1/resp.webm' },
+      violation: 'not_shooter',
+    },
+    {
+      name: 'the setter self-failing the response',
+      game: respRecord,
+      actor: 'A',
+      move: { type: 'selfFailResponse' },
+      violation: 'not_shooter',
+    },
+    {
+      name: 'the responder judging their own response',
+      game: respJudge,
+      actor: 'B',
+      move: { type: 'judgeResponse', approve: true },
+      violation: 'not_judge',
+    },
+  ])('rejects $name', ({ game, actor, move, violation }) => {
+    const result = applyMove(game, actor, move, TS);
+    expect(isRuleViolation(result)).toBe(true);
+    expect(result).toMatchObject({ violation });
+    expect(checkMove(game, actor, move.type)?.violation).toBe(violation);
+    expect(canMove(game, actor, move.type)).toBe(false);
+  });
+});
+
+describe('more than two players', () => {
+  const trio: GameDocument = {
+    ...baseGame,
+    players: {
+      ...baseGame.players,
+      C: { uid: 'carla', name: 'Carla', letters: '' },
+    },
+    order: ['A', 'B', 'C'],
+  };
+
+  it('has the next player judge the set and queues every other player to respond', () => {
+    let game = apply(trio, 'A', { type: 'submitSet', storagePath: 'games/g1/set.webm' });
+    expect(judgeOf(game)).toBe('B');
+    expect(checkMove(game, 'C', 'judgeSet')?.violation).toBe('not_judge');
+
+    game = apply(game, 'B', { type: 'judgeSet', approve: true });
+    expect(game.current).toMatchObject({ by: 'B', queue: ['C'] });
+    expect(judgeOf(game)).toBe('A');
+
+    game = apply(game, 'B', { type: 'selfFailResponse' });
+    expect(game.phase).toBe('RESP_RECORD');
+    expect(game.current.by).toBe('C');
+    expect(game.players.B?.letters).toBe('S');
+
+    game = apply(game, 'C', { type: 'submitResponse', storagePath: 'games/g1/resp.webm' });
+    game = apply(game, 'A', { type: 'judgeResponse', approve: true });
+    expect(game.phase).toBe('SET_RECORD');
+    expect(game.turn).toBe('A');
+    expect(game.history.map((entry) => entry.responder)).toEqual([undefined, 'B', 'C']);
+  });
+
+  it('passes a declined set to the next player in the rotation', () => {
+    const game = apply({ ...trio, turn: 'C', current: { by: 'C' } }, 'C', { type: 'selfFailSet' });
+    expect(game.turn).toBe('A');
+  });
+
+  it('knocks out players who complete the word and crowns the last one standing', () => {
+    let game = apply(
+      {
+        ...trio,
+        phase: 'RESP_RECORD',
+        players: { ...trio.players, B: { uid: 'bruno', name: 'Bruno', letters: 'SK' } },
+        current: { by: 'B', setVideoPath: 'games/g1/set.webm', queue: ['C'] },
+      },
+      'B',
+      { type: 'selfFailResponse' }
+    );
+    expect(game.players.B).toMatchObject({ letters: 'SK8', eliminated: true });
+    expect(game.history.at(-1)).toMatchObject({ responder: 'B', eliminated: true });
+    expect(game.order).toEqual(['A', 'C']);
+    expect(game.winner).toBeUndefined();
+    expect(game.current.by).toBe('C');
+
+    game = apply(
+      { ...game, players: { ...game.players, C: { uid: 'carla', name: 'Carla', letters: 'SK' } } },
+      'C',
+      { type: 'selfFailResponse' }
+    );
+    expect(game.order).toEqual(['A']);
+    expect(game.winner).toBe('A');
+  });
+
+  it('seats new players in the next free slot before the first set', () => {
+    const joined = addPlayer(trio, 'dmitri', 'Dmitri', TS);
+    expect(isRuleViolation(joined)).toBe(false);
+    expect(joined).toMatchObject({
+      players: { D: { uid: 'dmitri', name: 'Dmitri', letters: '' } },
+      order: ['A', 'B', 'C', 'D'],
+    });
+  });
+
+  it('starts the shot clock once a second player joins', () => {
+    const solo: GameDocument = { ...baseGame, players: { A: baseGame.players.A }, order: ['A'] };
+    expect(addPlayer(solo, 'bruno', 'Bruno', TS)).toMatchObject({
+      deadline: '2024-03-02T12:00:00.000Z',
+    });
+  });
+
+  it.each<{ name: string; game: GameDocument; violation: RuleViolationCode }>([
+    { name: 'finished games', game: { ...trio, winner: 'A' }, violation: 'game_over' },
+    { name: 'games already under way', game: setJudge, violation: 'game_started' },
+    {
+      name: 'full games',
+      game: {
+        ...trio,
+        players: {
+          ...trio.players,
+          D: { uid: 'd', name: 'D', letters: '' },
+          E: { uid: 'e', name: 'E', letters: '' },
+          F: { uid: 'f', name: 'F', letters: '' },
+        },
+      },
+      violation: 'game_full',
+    },
+  ])('refuses to seat players in $name', ({ game, violation }) => {
+    expect(Object.keys(game.players).length).toBeLessThanOrEqual(MAX_PLAYERS);
+    expect(addPlayer(game, 'late', 'Late', TS)).toMatchObject({ violation });
+  });
+});
+
+describe('rematches and series', () => {
+  const ids = { gameId: 'g1', rematchId: 'g2', code: 'WXYZ' };
+  const won: GameDocument = {
+    ...baseGame,
+    word: 'SKATE',
+    players: {
+      A: { uid: 'alice', name: 'Alice', letters: 'SK' },
+      B: { uid: 'bruno', name: 'Bruno', letters: 'SKATE', eliminated: true },
+    },
+    order: ['A'],
+    winner: 'A',
+    series: { id: 'g1', bestOf: 3, game: 1, wins: {} },
+    history: [{ by: 'A', result: 'approved_set', ts: TS }],
+  };
+
+  const rematch = (game: GameDocument) => {
+    const next = rematchGame(game, ids, TS);
+    if (isRuleViolation(next)) {
+      throw new Error(`Unexpected violation: ${next.violation}`);
+    }
+    return next;
+  };
+
+  it('counts the finished game towards the series score', () => {
+    expect(seriesScore(won)).toEqual({ A: 1 });
+    expect(seriesWinner(won)).toBeUndefined();
+    expect(seriesWinner({ ...won, series: { ...won.series!, wins: { A: 1 } } })).toBe('A');
+  });
+
+  it('resets the same players and hands the first set to the other player', () => {
+    const next = rematch(won);
+    expect(next).toMatchObject({
+      code: 'WXYZ',
+      word: 'SKATE',
+      turn: 'B',
+      phase: 'SET_RECORD',
+      current: { by: 'B' },
+      order: ['A', 'B'],
+      history: [],
+      rematchOf: 'g1',
+      series: { id: 'g1', bestOf: 3, game: 2, wins: { A: 1 } },
+      deadline: '2024-03-02T12:00:00.000Z',
+    });
+    expect(next.players.B).toEqual({ uid: 'bruno', name: 'Bruno', letters: '' });
+    expect(next.winner).toBeUndefined();
+  });
+
+  it('starts a fresh series once someone has clinched it', () => {
+    const next = rematch({ ...won, series: { id: 'g1', bestOf: 3, game: 2, wins: { A: 1 } } });
+    expect(next.series).toEqual({ id: 'g2', bestOf: 3, game: 1, wins: {} });
+  });
+
+  it('treats games without a series as a best of one', () => {
+    const { series: _series, ...legacy } = won;
+    expect(seriesWinner(legacy)).toBe('A');
+    expect(rematch(legacy).series).toEqual({ id: 'g2', bestOf: 1, game: 1, wins: {} });
+  });
+
+  it('refuses a rematch while the game is still being played', () => {
+    expect(rematchGame(baseGame, ids, TS)).toMatchObject({ violation: 'game_in_progress' });
+  });
+});
+
+describe('clip length', () => {
+  const timed: GameDocument = { ...baseGame, clipLength: { setSeconds: 10, responseSeconds: 30 } };
+
+  it('limits each recording phase to the per-game length', () => {
+    expect(clipLimitMs(baseGame)).toBe(15_000);
+    expect(clipLimitMs(timed)).toBe(10_000);
+    expect(clipLimitMs(timed, 'RESP_RECORD')).toBe(30_000);
+  });
+
+  it('rejects clips longer than the limit', () => {
+    expect(
+      applyMove(timed, 'A', { type: 'submitSet', storagePath: 'set.webm', durationMs: 12_000 }, TS)
+    ).toMatchObject({ violation: 'clip_too_long' });
+    expect(
+      apply(timed, 'A', { type: 'submitSet', storagePath: 'set.webm', durationMs: 10_400 }).current
+    ).toEqual({ by: 'A', setVideoPath: 'set.webm', setDurationMs: 10_400 });
+  });
+
+  it('records the clip durations on the history entry', () => {
+    let game = apply(timed, 'A', { type: 'submitSet', storagePath: 'set.webm', durationMs: 9_000 });
+    game = apply(game, 'B', { type: 'judgeSet', approve: true });
+    game = apply(game, 'B', {
+      type: 'submitResponse',
+      storagePath: 'resp.webm',
+      durationMs: 25_000,
+    });
+    game = apply(game, 'A', { type: 'judgeResponse', approve: true });
+    expect(game.history[game.history.length - 1]).toMatchObject({
+      setPath: 'set.webm',
+      setDurationMs: 9_000,
+      respPath: 'resp.webm',
+      respDurationMs: 25_000,
+    });
+  });
+});
+
+describe('house rules', () => {
+  it('keeps sets to one take unless the host allows retakes', () => {
+    expect(canRetake(baseGame)).toBe(false);
+    expect(canRetake({ ...baseGame, houseRules: { setRetakes: true } })).toBe(true);
+  });
+
+  it('always lets responders retake before submitting', () => {
+    expect(canRetake(respRecord)).toBe(true);
+  });
+});
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
@@ -6,6 +6,8 @@ export default defineConfig({
   test: {
     environment: 'jsdom',
     setupFiles: ['./vitest.setup.ts'],
-    globals: true
+    globals: true,
+    // Emulator-backed suites run through `npm run test:integration`; Downloads/ is a legacy snapshot.
+    exclude: [...configDefaults.exclude, 'tests/integration/**', 'Downloads/**']
   }
 });
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Runs against the Firebase emulators; start them with `npm run test:integration`.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/integration/**/*.test.ts'],
+    globals: true,
+    // The suites share one set of emulators and clear them between tests.
+    fileParallelism: false,
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+  },
+});